@@ -0,0 +1,184 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Cancellation and deadline support for the SDK asynchronous operations
+ */
+
+import { EventEmitter } from 'events'
+import { PancloudClass } from './common'
+import { PanCloudError, TimeoutError, isSdkError } from './error'
+
+/**
+ * Minimal subset of the standard `AbortSignal` interface used by the SDK. Both the NodeJS (>= 15) global
+ * `AbortController().signal` and most polyfills are compatible with it
+ */
+export interface AbortSignal {
+    readonly aborted: boolean
+    addEventListener(type: 'abort', listener: () => void): void
+    removeEventListener(type: 'abort', listener: () => void): void
+}
+
+/**
+ * Optional cancellation settings accepted by all public asynchronous methods of the SDK services
+ */
+export interface CallOptions {
+    /**
+     * Aborting this signal will abort the in-flight HTTP request (and any pending retry)
+     */
+    signal?: AbortSignal
+    /**
+     * Absolute time (milliseconds since the Unix epoch) at which the operation is aborted
+     */
+    deadline?: number
+}
+
+/**
+ * @param source class performing the operation. Its className will be attached to the error
+ * @param cops the cancellation settings of the operation
+ * @returns a `PanCloudError` (code `ABORTED` or `TIMEOUT`) if the operation must not continue or
+ * `undefined` otherwise
+ */
+export function abortError(source: PancloudClass, cops?: CallOptions): PanCloudError | undefined {
+    if (!cops) {
+        return undefined
+    }
+    if (cops.signal && cops.signal.aborted) {
+        return new PanCloudError(source, 'ABORTED', 'Operation aborted')
+    }
+    if (cops.deadline !== undefined && Date.now() >= cops.deadline) {
+        return new TimeoutError(source, 'Operation deadline exceeded')
+    }
+    return undefined
+}
+
+/**
+ * Throws a `PanCloudError` (code `ABORTED` or `TIMEOUT`) if the operation must not continue
+ * @param source class performing the operation. Its className will be attached to the error
+ * @param cops the cancellation settings of the operation
+ */
+export function throwIfAborted(source: PancloudClass, cops?: CallOptions): void {
+    let e = abortError(source, cops)
+    if (e) {
+        throw e
+    }
+}
+
+/**
+ * Convenience type guard to check if an error was triggered by an aborted operation
+ * @param e the error to check
+ */
+export function isAbortError(e: any): e is PanCloudError {
+    return isSdkError(e) && (e.getErrorCode() == 'ABORTED' || e.getErrorCode() == 'TIMEOUT')
+}
+
+/**
+ * Signal that gets aborted either when its parent signal is aborted or when the deadline is reached
+ */
+class DeadlineSignal implements AbortSignal {
+    aborted = false
+    private emitter = new EventEmitter()
+    private timer?: NodeJS.Timer
+    private parent?: AbortSignal
+    private onParentAbort = () => this.abort()
+
+    constructor(cops: CallOptions) {
+        if (cops.signal) {
+            if (cops.signal.aborted) {
+                this.aborted = true
+                return
+            }
+            this.parent = cops.signal
+            this.parent.addEventListener('abort', this.onParentAbort)
+        }
+        if (cops.deadline !== undefined) {
+            this.timer = setTimeout(() => this.abort(), Math.max(0, cops.deadline - Date.now()))
+        }
+    }
+
+    addEventListener(type: 'abort', listener: () => void): void {
+        this.emitter.on(type, listener)
+    }
+
+    removeEventListener(type: 'abort', listener: () => void): void {
+        this.emitter.removeListener(type, listener)
+    }
+
+    private abort(): void {
+        if (!this.aborted) {
+            this.aborted = true
+            this.release()
+            this.emitter.emit('abort')
+        }
+    }
+
+    release(): void {
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = undefined
+        }
+        if (this.parent) {
+            this.parent.removeEventListener('abort', this.onParentAbort)
+            this.parent = undefined
+        }
+    }
+}
+
+/**
+ * Combines the user-provided signal and deadline into a single signal
+ * @param cops the cancellation settings of the operation
+ * @returns the combined signal (if any) and a function that must be called once the operation is completed
+ * to release its resources
+ */
+export function callSignal(cops?: CallOptions): { signal?: AbortSignal, release: () => void } {
+    if (!cops || (cops.signal === undefined && cops.deadline === undefined)) {
+        return { release: () => { } }
+    }
+    if (cops.deadline === undefined) {
+        return { signal: cops.signal, release: () => { } }
+    }
+    let signal = new DeadlineSignal(cops)
+    return { signal: signal, release: () => signal.release() }
+}
+
+/**
+ * Waits the provided amount of milliseconds unless the operation is aborted in between
+ * @param source class performing the operation. Its className will be attached to the error
+ * @param ms milliseconds to wait
+ * @param cops the cancellation settings of the operation
+ */
+export function abortableDelay(source: PancloudClass, ms: number, cops?: CallOptions): Promise<void> {
+    let { signal, release } = callSignal(cops)
+    return new Promise((resolve, reject) => {
+        let onAbort = () => {
+            clearTimeout(timer)
+            release()
+            let e = abortError(source, cops)
+            reject((e) ? e : new PanCloudError(source, 'ABORTED', 'Operation aborted'))
+        }
+        let timer = setTimeout(() => {
+            if (signal) {
+                signal.removeEventListener('abort', onAbort)
+            }
+            release()
+            resolve()
+        }, ms)
+        if (signal) {
+            if (signal.aborted) {
+                onAbort()
+                return
+            }
+            signal.addEventListener('abort', onAbort)
+        }
+    })
+}
@@ -0,0 +1,96 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Adaptive scheduling of the AutoPoll feature: the delay between polls grows exponentially while the
+ * polls come back empty and drops as soon as data is received
+ */
+
+/**
+ * Adaptive AutoPoll configuration options
+ */
+export interface AutoPollOptions {
+    /**
+     * Ceiling (milliseconds) of the delay between autopoll attempts reached after consecutive empty polls.
+     * Defaults to **10000ms** (and never less than `autoPollSleep`)
+     */
+    autoPollMaxSleep?: number
+    /**
+     * Factor applied to the delay after each empty poll. Defaults to **2**. Use **1** to keep a fixed
+     * `autoPollSleep` cadence
+     */
+    autoPollBackoff?: number
+}
+
+/**
+ * Result of a poll operation as seen by the scheduler. **full** means the service had more data than it
+ * returned (i.e. a batch filled up or a result page is ready), **partial** that some data was received
+ * and **empty** that nothing was received (or the poll failed)
+ */
+export type PollOutcome = 'empty' | 'partial' | 'full'
+
+/**
+ * Computes the delay before the next autopoll attempt
+ */
+export class AutoPollScheduler {
+    readonly minSleep: number
+    readonly maxSleep: number
+    private backoff: number
+    private sleep: number
+
+    /**
+     * @param minSleep delay after polls that received data (the `autoPollSleep` option)
+     * @param ops adaptive configuration options
+     */
+    constructor(minSleep: number, ops?: AutoPollOptions) {
+        this.minSleep = minSleep
+        this.maxSleep = Math.max(minSleep, (ops && ops.autoPollMaxSleep !== undefined) ? ops.autoPollMaxSleep : 10000)
+        this.backoff = Math.max(1, (ops && ops.autoPollBackoff !== undefined) ? ops.autoPollBackoff : 2)
+        this.sleep = minSleep
+    }
+
+    /**
+     * @param outcome result of the last poll operation
+     * @param waited milliseconds the service held the poll request open (bounded by `pollTimeout` /
+     * `maxWaitTime`). They are deducted from the delay after an empty poll as the service already waited
+     * for data on our behalf
+     * @returns milliseconds to wait before the next poll
+     */
+    next(outcome: PollOutcome, waited = 0): number {
+        switch (outcome) {
+            case 'full':
+                this.sleep = this.minSleep
+                return 0
+            case 'partial':
+                this.sleep = this.minSleep
+                return this.minSleep
+        }
+        let delay = this.sleep
+        this.sleep = Math.min(this.maxSleep, this.sleep * this.backoff)
+        return Math.max(0, delay - waited)
+    }
+
+    /**
+     * Delay the next empty poll will produce (the current cadence of an idle poller)
+     */
+    get cadence(): number {
+        return this.sleep
+    }
+
+    /**
+     * Goes back to the `minSleep` cadence (i.e. new work has been queued)
+     */
+    reset(): void {
+        this.sleep = this.minSleep
+    }
+}
@@ -0,0 +1,212 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Circuit breaker used to stop sending requests to degraded Application Framework endpoints
+ */
+
+import { PancloudClass } from './common'
+import { PanCloudError, isSdkError } from './error'
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN'
+
+/**
+ * Circuit breaker configuration options
+ */
+export interface BreakerOptions {
+    /**
+     * Number of consecutive failed operations that opens the circuit. Defaults to `5`
+     */
+    failureThreshold?: number
+    /**
+     * Milliseconds the circuit stays open before allowing probe requests (half-open state). Defaults to `30000`
+     */
+    resetTimeout?: number
+    /**
+     * Maximum number of concurrent probe requests while half-open. Defaults to `1`
+     */
+    halfOpenMaxCalls?: number
+    /**
+     * Number of successful probe requests needed to close the circuit again. Defaults to `1`
+     */
+    successThreshold?: number
+}
+
+/**
+ * Message sent to the `breakerListener` each time the circuit changes its state
+ */
+export interface BreakerEvent {
+    /**
+     * className of the object owning the circuit breaker
+     */
+    source: string
+    /**
+     * Application Framework endpoint (base URL) protected by the circuit breaker
+     */
+    endpoint: string
+    from: CircuitState
+    to: CircuitState
+}
+
+/**
+ * Runtime statistics of a circuit breaker
+ */
+export interface BreakerStats {
+    endpoint: string
+    state: CircuitState
+    /**
+     * Current amount of consecutive failed operations
+     */
+    consecutiveFailures: number
+    /**
+     * Number of times the circuit has been opened
+     */
+    opens: number
+    /**
+     * Number of operations rejected because the circuit was open
+     */
+    rejected: number
+    /**
+     * Time (milliseconds since the Unix epoch) of the last state change
+     */
+    since: number
+}
+
+/**
+ * Classic closed / open / half-open circuit breaker
+ */
+export class CircuitBreaker {
+    readonly stats: BreakerStats
+    private failureThreshold: number
+    private resetTimeout: number
+    private halfOpenMaxCalls: number
+    private successThreshold: number
+    private probes: number
+    private successes: number
+    private owner: PancloudClass
+    private listener?: (e: BreakerEvent) => void
+
+    /**
+     * @param owner object owning the circuit breaker. Its className will be attached to errors and events
+     * @param endpoint endpoint protected by the circuit breaker
+     * @param ops configuration options
+     * @param listener if provided, it will be called on each state change
+     */
+    constructor(owner: PancloudClass, endpoint: string, ops?: BreakerOptions, listener?: (e: BreakerEvent) => void) {
+        this.owner = owner
+        this.failureThreshold = (ops && ops.failureThreshold) ? ops.failureThreshold : 5
+        this.resetTimeout = (ops && ops.resetTimeout !== undefined) ? ops.resetTimeout : 30000
+        this.halfOpenMaxCalls = (ops && ops.halfOpenMaxCalls) ? ops.halfOpenMaxCalls : 1
+        this.successThreshold = (ops && ops.successThreshold) ? ops.successThreshold : 1
+        this.listener = listener
+        this.probes = 0
+        this.successes = 0
+        this.stats = {
+            endpoint: endpoint,
+            state: 'CLOSED',
+            consecutiveFailures: 0,
+            opens: 0,
+            rejected: 0,
+            since: Date.now()
+        }
+    }
+
+    private transition(to: CircuitState): void {
+        let from = this.stats.state
+        if (from == to) {
+            return
+        }
+        this.stats.state = to
+        this.stats.since = Date.now()
+        this.probes = 0
+        this.successes = 0
+        if (to == 'OPEN') {
+            this.stats.opens++
+        }
+        if (this.listener) {
+            this.listener({ source: this.owner.className, endpoint: this.stats.endpoint, from: from, to: to })
+        }
+    }
+
+    /**
+     * @returns milliseconds until the circuit allows (probe) requests again. `0` if requests are allowed
+     */
+    retryIn(): number {
+        if (this.stats.state != 'OPEN') {
+            return 0
+        }
+        return Math.max(0, this.stats.since + this.resetTimeout - Date.now())
+    }
+
+    /**
+     * Must be called before each operation
+     * @throws PanCloudError (code `CIRCUIT_OPEN`) if the operation must not be attempted
+     */
+    enter(): void {
+        if (this.stats.state == 'OPEN') {
+            if (this.retryIn() > 0) {
+                this.stats.rejected++
+                throw new PanCloudError(this.owner, 'CIRCUIT_OPEN', `Circuit open for ${this.stats.endpoint}`)
+            }
+            this.transition('HALF_OPEN')
+        }
+        if (this.stats.state == 'HALF_OPEN') {
+            if (this.probes >= this.halfOpenMaxCalls) {
+                this.stats.rejected++
+                throw new PanCloudError(this.owner, 'CIRCUIT_OPEN', `Circuit half-open for ${this.stats.endpoint}`)
+            }
+            this.probes++
+        }
+    }
+
+    /**
+     * Reports a successful operation
+     */
+    success(): void {
+        this.stats.consecutiveFailures = 0
+        if (this.stats.state == 'HALF_OPEN') {
+            this.probes = Math.max(0, this.probes - 1)
+            if (++this.successes >= this.successThreshold) {
+                this.transition('CLOSED')
+            }
+        }
+    }
+
+    /**
+     * Reports an operation that was aborted by the user (it neither counts as success nor as failure)
+     */
+    abandon(): void {
+        if (this.stats.state == 'HALF_OPEN') {
+            this.probes = Math.max(0, this.probes - 1)
+        }
+    }
+
+    /**
+     * Reports a failed operation
+     */
+    failure(): void {
+        this.stats.consecutiveFailures++
+        if (this.stats.state == 'HALF_OPEN' ||
+            (this.stats.state == 'CLOSED' && this.stats.consecutiveFailures >= this.failureThreshold)) {
+            this.transition('OPEN')
+        }
+    }
+}
+
+/**
+ * Convenience type guard to check if an operation was rejected by an open circuit breaker
+ * @param e the error to check
+ */
+export function isCircuitOpenError(e: any): e is PanCloudError {
+    return isSdkError(e) && e.getErrorCode() == 'CIRCUIT_OPEN'
+}
@@ -16,6 +16,8 @@
  */
 
 import { SdkErr, PanCloudError } from './error'
+import { FetchResponse } from './fetch'
+import { CallOptions, throwIfAborted, abortableDelay } from './abort'
 import { createHash } from 'crypto'
 
 /**
@@ -32,6 +34,16 @@ export enum LogLevel {
     ERROR = 3,
 }
 
+/**
+ * Context attributes attached to all messages logged by a (child) logger
+ */
+export interface LogContext {
+    datalakeId?: string
+    queryId?: string
+    channel?: string
+    [key: string]: string | undefined
+}
+
 /**
  * User-provided logger classes are supported as long as they adhere to this interface
  */
@@ -41,6 +53,12 @@ export interface PancloudLogger {
     alert(source: PancloudClass, message: string, name?: string): void,
     info(source: PancloudClass, message: string, name?: string): void,
     debug(source: PancloudClass, message: string, name?: string, payload?: any): void
+    /**
+     * Optional. Returns a logger that attaches the provided context to all its messages
+     * @param context attributes to be added to the context inherited from this logger
+     * @param level if provided, the child logger uses it instead of following the level of this logger
+     */
+    child?(context: LogContext, level?: LogLevel): PancloudLogger
 }
 
 const LTYPES = {
@@ -69,13 +87,10 @@ const LTYPES = {
 }
 
 /**
- * Convenience type to guide the developer using the right entry points
+ * Convenience type to guide the developer using the right entry points. Any other (custom or private) entry point
+ * can be provided as well (see `registerRegion()`)
  */
-export type EntryPoint = 'https://api.eu.paloaltonetworks.com' | 'https://api.us.paloaltonetworks.com'
-export const region2EntryPoint: { [region: string]: EntryPoint } = {
-    'americas': 'https://api.us.paloaltonetworks.com',
-    'europe': 'https://api.eu.paloaltonetworks.com'
-}
+export type EntryPoint = 'https://api.eu.paloaltonetworks.com' | 'https://api.us.paloaltonetworks.com' | (string & {})
 
 export type OAUTH2SCOPE = 'logging-service:read' | 'logging-service:write' |
     'event-service:read' | 'directory-sync-service:read'
@@ -91,46 +106,130 @@ export function isKnownLogType(t: string): t is LogType {
     return LTYPES.hasOwnProperty(t)
 }
 
+const REDACTED = '[REDACTED]'
+const SECRET_PATTERNS: [RegExp, string][] = [
+    [/(Bearer\s+)[A-Za-z0-9\-._~+\/]+=*/gi, `$1${REDACTED}`],
+    [/("(?:access_token|refresh_token|client_secret|accessToken|refreshToken|clientSecret|developerToken|Authorization)"\s*:\s*")(?:[^"\\]|\\.)*"/gi,
+        `$1${REDACTED}"`],
+    [/((?:access_token|refresh_token|client_secret)=)[^&\s"]+/gi, `$1${REDACTED}`]
+]
+
+/**
+ * Replaces bearer tokens, access / refresh tokens and client secrets found in the text
+ * @param text the text to be logged
+ * @returns the text with all secrets replaced by `[REDACTED]`
+ */
+export function redactSecrets(text: string): string {
+    return SECRET_PATTERNS.reduce((t, [regex, replacement]) => t.replace(regex, replacement), text)
+}
+
+/**
+ * Output format of the SDK logger. `text` is the classic `PANCLOUD: {...} payload=...` line and `json` outputs
+ * one JSON object per line (including a timestamp)
+ */
+export type LogFormat = 'text' | 'json'
+
+/**
+ * Options for the SDK logger
+ */
+export interface SdkLoggerOptions {
+    /**
+     * Only messages with a level equal or above this value will be logged. Defaults to `LogLevel.INFO`
+     */
+    level?: LogLevel
+    /**
+     * Defaults to `text`
+     */
+    format?: LogFormat
+    /**
+     * Redact secrets (bearer tokens, refresh tokens, client secrets) from messages and payloads. Defaults to `true`
+     */
+    redact?: boolean
+    /**
+     * Log the stack trace of errors. Defaults to `false`
+     */
+    stackTrace?: boolean
+    /**
+     * Context attributes attached to all messages
+     */
+    context?: LogContext
+}
+
 /**
  * Centralized logging capability for the whole pancloud SDK
  */
-class SdkLogger implements PancloudLogger {
-    level: LogLevel
+export class SdkLogger implements PancloudLogger {
+    private ownLevel?: LogLevel
+    private parent?: SdkLogger
+    private format: LogFormat
+    private redact: boolean
     private stackTrace: boolean
+    private context: LogContext
 
     /**
-     * 
-     * @param level only messages with a level equal or avobe this provided value will be loogged
-     * @param stackTrace boolean value to toggle stacktrace logging
+     * @param ops logger options
      */
-    constructor(level: LogLevel, stackTrace = true) {
-        this.level = level
-        this.stackTrace = stackTrace
+    constructor(ops?: SdkLoggerOptions) {
+        this.ownLevel = (ops && ops.level !== undefined) ? ops.level : LogLevel.INFO
+        this.format = (ops && ops.format) ? ops.format : 'text'
+        this.redact = (ops && ops.redact !== undefined) ? ops.redact : true
+        this.stackTrace = (ops && ops.stackTrace !== undefined) ? ops.stackTrace : false
+        this.context = (ops && ops.context) ? { ...ops.context } : {}
+    }
+
+    get level(): LogLevel {
+        if (this.ownLevel !== undefined) {
+            return this.ownLevel
+        }
+        return (this.parent) ? this.parent.level : LogLevel.INFO
+    }
+
+    set level(level: LogLevel) {
+        this.ownLevel = level
+    }
+
+    child(context: LogContext, level?: LogLevel): SdkLogger {
+        let child = new SdkLogger({
+            level: level,
+            format: this.format,
+            redact: this.redact,
+            stackTrace: this.stackTrace,
+            context: { ...this.context, ...context }
+        })
+        if (level === undefined) {
+            child.ownLevel = undefined
+            child.parent = this
+        }
+        return child
     }
 
     error(e: SdkErr): void {
-        this.format(e.getSourceClass(),
+        this.output(e.getSourceClass(),
             e.getErrorMessage(), LogLevel.ERROR,
             e.name, e.getErrorCode(), undefined, e.stack)
     }
 
     alert(source: PancloudClass, message: string, name?: string): void {
-        this.format(source.className, message, LogLevel.ALERT, name)
+        this.output(source.className, message, LogLevel.ALERT, name)
     }
 
     info(source: PancloudClass, message: string, name?: string): void {
-        this.format(source.className, message, LogLevel.INFO, name)
+        this.output(source.className, message, LogLevel.INFO, name)
     }
 
     debug(source: PancloudClass, message: string, name?: string, payload?: any): void {
-        this.format(source.className, message, LogLevel.DEBUG, name, undefined, payload)
+        this.output(source.className, message, LogLevel.DEBUG, name, undefined, payload)
     }
 
-    private format(source: string, message: string, level: LogLevel, name?: string, code?: string, payload?: any, stack?: string) {
+    private clean(text: string): string {
+        return (this.redact) ? redactSecrets(text) : text
+    }
+
+    private output(source: string, message: string, level: LogLevel, name?: string, code?: string, payload?: any, stack?: string) {
         if (level >= this.level) {
             let output: { [i: string]: string } = {
                 source,
-                message
+                message: this.clean(message)
             }
             let payloadOut = ''
             if (name) {
@@ -140,13 +239,19 @@ class SdkLogger implements PancloudLogger {
                 output['code'] = code
             }
             if (stack) {
+                stack = this.clean(stack)
                 output['stack'] = stack
             }
+            Object.entries(this.context).forEach(([k, v]) => {
+                if (v !== undefined) {
+                    output[k] = v
+                }
+            })
             if (payload) {
                 if (typeof payload == 'string') {
-                    payloadOut = payload
+                    payloadOut = this.clean(payload)
                 } else {
-                    let jsonText = JSON.stringify(payload)
+                    let jsonText = this.clean(JSON.stringify(payload))
                     if (jsonText.length > 300) {
                         payloadOut = jsonText.substr(0, 300) + ' ...'
                     } else {
@@ -155,9 +260,19 @@ class SdkLogger implements PancloudLogger {
 
                 }
             }
-            let finalOutput = `PANCLOUD: ${JSON.stringify(output)}`
-            if (payloadOut != '') {
-                finalOutput += ` payload=${payloadOut}`
+            let finalOutput: string
+            if (this.format == 'json') {
+                finalOutput = JSON.stringify({
+                    time: new Date().toISOString(),
+                    level: LogLevel[level],
+                    ...output,
+                    ...(payloadOut != '') ? { payload: payloadOut } : {}
+                })
+            } else {
+                finalOutput = `PANCLOUD: ${JSON.stringify(output)}`
+                if (payloadOut != '') {
+                    finalOutput += ` payload=${payloadOut}`
+                }
             }
             switch (level) {
                 case LogLevel.ERROR: {
@@ -173,7 +288,7 @@ class SdkLogger implements PancloudLogger {
                     console.info(finalOutput)
                 }
             }
-            if (this.stackTrace && stack) {
+            if (this.stackTrace && stack && this.format == 'text') {
                 console.error(stack)
             }
         }
@@ -183,7 +298,28 @@ class SdkLogger implements PancloudLogger {
 /**
  * Instantiate a module-provided logger at load time
  */
-export let commonLogger: PancloudLogger = new SdkLogger(LogLevel.INFO, false)
+export let commonLogger: PancloudLogger = new SdkLogger({ level: LogLevel.INFO, stackTrace: false })
+
+/**
+ * Returns the logger to be used by an object configured with its own logger, context or level
+ * @param logger the logger provided in the object options. Defaults to the common logger
+ * @param context context attributes for all messages logged by the object
+ * @param level log level for the object. Ignored if the logger does not support child loggers
+ * @returns `undefined` if the object must keep using the common logger
+ */
+export function scopedLogger(logger?: PancloudLogger, context?: LogContext, level?: LogLevel): PancloudLogger | undefined {
+    if (context === undefined && level === undefined) {
+        return logger
+    }
+    return childLogger((logger) ? logger : commonLogger, (context) ? context : {}, level)
+}
+
+/**
+ * @returns a child logger with the provided context or the same logger if it does not support child loggers
+ */
+export function childLogger(logger: PancloudLogger, context: LogContext, level?: LogLevel): PancloudLogger {
+    return (logger.child) ? logger.child(context, level) : logger
+}
 
 /**
  * Developer might decide to change the loglevel of the logger object at runtime
@@ -202,29 +338,165 @@ export function setLogger(logger: PancloudLogger): void {
 }
 
 /**
- * Abstract function used to retry multiple times a user-provided operation
- * @param source class using the retrier. Its className property value will be used in logs generated by the retrier 
- * @param n number of attempts
- * @param delay milliseconds to wait after a failed attempt
+ * Describes how failed HTTP operations must be retried
+ */
+export interface RetryPolicy {
+    /**
+     * Maximum number of attempts (including the first one). Defaults to `3`
+     */
+    maxAttempts?: number
+    /**
+     * Delay (in milliseconds) before the first retry. It is doubled after each failed attempt. Defaults to `100`
+     */
+    baseDelay?: number
+    /**
+     * Upper limit (in milliseconds) for the delay between attempts. Defaults to `10000`
+     */
+    maxDelay?: number
+    /**
+     * Randomize the delay between `0` and the computed backoff value ("full jitter"). Defaults to `true`
+     */
+    jitter?: boolean
+    /**
+     * HTTP status codes that will trigger a retry. Defaults to `[429, 500, 502, 503, 504]`
+     */
+    retryableStatus?: number[]
+    /**
+     * Use the value of the `Retry-After` response header (if present) as the delay before the next attempt.
+     * The value is capped to `maxDelay`. Defaults to `true`
+     */
+    honorRetryAfter?: boolean
+    /**
+     * Non-idempotent operations (like creating a Logging Service query) are never retried unless this
+     * property is set to `true`. Defaults to `false`
+     */
+    retryNonIdempotent?: boolean
+}
+
+/**
+ * Runtime statistics of the retry engine
+ */
+export interface RetryStats {
+    /**
+     * Number of attempts performed (including the first one of each operation)
+     */
+    attempts: number,
+    /**
+     * Number of attempts that were retries of a failed one
+     */
+    retries: number,
+    /**
+     * Number of operations that failed after all attempts were exhausted
+     */
+    exhausted: number
+}
+
+const DEFAULT_RETRY_STATUS = [429, 500, 502, 503, 504]
+
+/**
+ * Builds a `RetryPolicy` object from the legacy `count` / `delay` configuration options
+ * @param policy user-provided policy (takes precedence)
+ * @param count legacy number of attempts
+ * @param delay legacy delay between attempts
+ */
+export function retryPolicyFactory(policy?: RetryPolicy, count?: number, delay?: number): RetryPolicy {
+    let rp: RetryPolicy = {}
+    if (count !== undefined) {
+        rp.maxAttempts = count
+    }
+    if (delay !== undefined) {
+        rp.baseDelay = delay
+    }
+    return { ...rp, ...policy }
+}
+
+function retryAfter(r: FetchResponse): number | undefined {
+    let value = r.header('retry-after')
+    if (value === undefined) {
+        return undefined
+    }
+    let seconds = Number(value)
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000)
+    }
+    let date = Date.parse(value)
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now())
+    }
+    return undefined
+}
+
+/**
+ * Retries a HTTP operation based on the provided policy. Responses with a retryable status code are retried
+ * as well as thrown (network) errors. Once all attempts are exhausted the last response is returned (or the
+ * last error thrown). No retry is attempted if it would start after the call deadline
+ * @param source class using the retrier. Its className property value will be used in logs generated by the retrier
+ * @param policy the retry policy to apply
+ * @param idempotent whether the operation can be safely repeated
  * @param handler function that implements the operation
- * @param params additional arguments to be passed to the handler function
+ * @param stats optional object to be updated with the retry runtime statistics
+ * @param cops optional cancellation settings. No more attempts are performed once the operation is aborted
+ * @param logger logger to be used. Defaults to the common logger
  */
-export async function retrier<T, O>(source: PancloudClass, n = 3, delay = 100, handler: (...args: T[]) => Promise<O>, ...params: T[]): Promise<O> {
-    let a = n
-    let lastError: Error | undefined = undefined
-    while (a > 0) {
+export async function policyRetrier(source: PancloudClass, policy: RetryPolicy, idempotent: boolean,
+    handler: () => Promise<FetchResponse>, stats?: RetryStats, cops?: CallOptions,
+    logger: PancloudLogger = commonLogger): Promise<FetchResponse> {
+    let maxAttempts = (policy.maxAttempts !== undefined) ? policy.maxAttempts : 3
+    let baseDelay = (policy.baseDelay !== undefined) ? policy.baseDelay : 100
+    let maxDelay = (policy.maxDelay !== undefined) ? policy.maxDelay : 10000
+    let retryableStatus = (policy.retryableStatus) ? policy.retryableStatus : DEFAULT_RETRY_STATUS
+    if (!idempotent && !policy.retryNonIdempotent) {
+        maxAttempts = 1
+    }
+    let attempt = 0
+    while (true) {
+        throwIfAborted(source, cops)
+        attempt++
+        if (stats) {
+            stats.attempts++
+            if (attempt > 1) {
+                stats.retries++
+            }
+        }
+        let response: FetchResponse | undefined
+        let error: any
+        let reason: string
         try {
-            return await handler(...params)
+            response = await handler()
+            if (response.ok || !retryableStatus.includes(response.status)) {
+                return response
+            }
+            reason = `HTTP ${response.statusText}`
         } catch (e) {
-            commonLogger.info(source, `Failed attempt ${a}`, 'RETRIER')
-            lastError = e
+            throwIfAborted(source, cops)
+            error = e
+            reason = e.message
         }
-        await new Promise((resolve) => {
-            setTimeout(resolve, delay)
-        })
-        a--
+        let delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1))
+        if (policy.jitter !== false) {
+            delay = Math.floor(Math.random() * delay)
+        }
+        if (response && policy.honorRetryAfter !== false) {
+            let serverDelay = retryAfter(response)
+            if (serverDelay !== undefined) {
+                delay = Math.max(delay, Math.min(serverDelay, maxDelay))
+            }
+        }
+        let pastDeadline = cops !== undefined && cops.deadline !== undefined && Date.now() + delay >= cops.deadline
+        if (attempt >= maxAttempts || pastDeadline) {
+            if (stats) {
+                stats.exhausted++
+            }
+            let why = (pastDeadline && attempt < maxAttempts) ? 'Next attempt would exceed the deadline' : 'Giving up'
+            logger.info(source, `Attempt ${attempt} of ${maxAttempts} failed (${reason}). ${why}`, 'RETRIER')
+            if (error !== undefined) {
+                throw error
+            }
+            return response as FetchResponse
+        }
+        logger.info(source, `Attempt ${attempt} of ${maxAttempts} failed (${reason}). Retrying in ${delay} ms`, 'RETRIER')
+        await abortableDelay(source, delay, cops)
     }
-    throw (lastError) ? lastError : new Error('reties exhausted')
 }
 
 export function expTokenExtractor(source: PancloudClass, token: string): number {
@@ -16,10 +16,26 @@
  * and Logging Service
  */
 import { URL } from 'url'
-import { fetch, FetchOptions, HttpMethod } from './fetch'
+import {
+    FetchOptions, FetchQuery, FetchResponse, HttpMethod, Transport, defaultTransport, AgentOptions, nodeTransport,
+    TransportStats
+} from './fetch'
 import { Credentials } from './credentials'
-import { ApplicationFrameworkError, PanCloudError } from './error'
-import { commonLogger, LogLevel, retrier } from './common'
+import { ErrorContext, PanCloudError, SchemaError, TimeoutError, httpError, isSdkError } from './error'
+import { CallOptions, callSignal, throwIfAborted, isAbortError } from './abort'
+import { ProxyOptions } from './proxy'
+import { BodyParser } from './jsonstream'
+import { Throttle, ThrottleOptions, ThrottleStats, credentialsThrottle } from './throttle'
+import { MetricsRegistry, defaultRegistry, endpointLabel } from './metrics'
+import { CircuitBreaker, BreakerOptions, BreakerEvent, BreakerStats, isCircuitOpenError } from './breaker'
+import { Tracer, Span, SpanAttributes, getTracer, withSpan, traceparent } from './tracing'
+import { CloseOptions, settleWithin } from './lifecycle'
+import { commonLogger, LogLevel, LogContext, PancloudLogger, scopedLogger, childLogger, policyRetrier, retryPolicyFactory, RetryPolicy, RetryStats } from './common'
+
+/**
+ * Response header carrying the Application Framework request identifier
+ */
+const REQUEST_ID_HEADER = 'x-request-id'
 
 /**
  * Core class runtime statistic metrics
@@ -29,28 +45,209 @@ export interface CoreStats {
      * The number of API transactions completed
      */
     apiTransactions: number
+    /**
+     * Runtime statistics of the HTTP retry engine
+     */
+    retryStats: RetryStats
+    /**
+     * Number of access token refreshes forced by a HTTP 401 response
+     */
+    forcedRefreshes: number
+    /**
+     * If the transport provides them, connection usage statistics. Please note the transport (and its statistics)
+     * might be shared with other objects
+     */
+    transportStats?: TransportStats
+    /**
+     * If a throttle is configured, its queue-wait statistics. Please note the throttle (and its statistics) is
+     * shared by all objects bound to the same credentials
+     */
+    throttleStats?: ThrottleStats
+    /**
+     * If a circuit breaker is configured, its state and statistics
+     */
+    breakerStats?: BreakerStats
 }
 
+/**
+ * Message sent to the `authRefreshListener` each time a HTTP 401 response forces an access token refresh
+ */
+export interface AuthRefreshEvent {
+    /**
+     * className of the object that received the HTTP 401 response
+     */
+    source: string
+    /**
+     * HTTP method of the rejected operation
+     */
+    method: HttpMethod
+    /**
+     * Path (relative to the service base URL) of the rejected operation
+     */
+    path: string
+}
+
+/**
+ * Describes a HTTP operation in progress. It is provided to all interceptors
+ */
+export interface RequestContext {
+    /**
+     * className of the object performing the operation
+     */
+    source: string
+    /**
+     * HTTP method of the operation
+     */
+    method: HttpMethod
+    /**
+     * Path (relative to the service base URL) of the operation
+     */
+    path: string
+    /**
+     * Full URL of the operation. Request interceptors can modify it
+     */
+    url: string
+    /**
+     * Options that will be passed to the transport. Request interceptors can modify them (i.e. adding headers)
+     */
+    options: FetchOptions
+    /**
+     * Request payload as it will be logged. Request interceptors can replace it (i.e. to redact sensitive data)
+     * without modifying the payload sent to the Application Framework
+     */
+    logBody?: string
+    /**
+     * If set by a response interceptor, it will be logged instead of the response payload
+     */
+    logResponse?: any
+    /**
+     * If tracing is enabled, the span of the operation. Interceptors can add attributes to it
+     */
+    span?: Span
+}
+
+/**
+ * Runs before the request is sent. Returning a `FetchResponse` short-circuits the operation (the transport is not
+ * called and the provided response is processed instead)
+ */
+export type RequestInterceptor = (ctx: RequestContext) => void | FetchResponse | Promise<void | FetchResponse>
+
+/**
+ * Runs once a response is received (or provided by a request interceptor). Returning a `FetchResponse` replaces
+ * the one being processed
+ */
+export type ResponseInterceptor = (ctx: RequestContext, response: FetchResponse) => void | FetchResponse |
+    Promise<void | FetchResponse>
+
+/**
+ * Runs when the transport fails (after all retry attempts). Returning a `FetchResponse` recovers the operation.
+ * Otherwise the error is thrown to the caller
+ */
+export type ErrorInterceptor = (ctx: RequestContext, error: Error) => void | FetchResponse |
+    Promise<void | FetchResponse>
+
 /**
  * Interface to provide configuration options to the core class
  */
 export interface CoreOptions {
     /**
-     * Minimum level of logs that should be generated by the coreClass
+     * Minimum level of logs that should be generated by this object (it does not change the level of the
+     * common logger or the one of other objects)
      */
     level?: LogLevel
     /**
-     * Number of times a fetch operation must be retried in case of exception
+     * Logger to be used by this object. Defaults to the common logger (see `setLogger()`)
+     */
+    logger?: PancloudLogger
+    /**
+     * Context attributes (i.e. `datalakeId`) attached to all messages logged by this object
+     */
+    logContext?: LogContext
+    /**
+     * Number of times a fetch operation must be retried in case of exception. Superseded by `retryPolicy.maxAttempts`
      */
     retrierCount?: number
     /**
-     * Delay (in milliseconds) between retry attempts
+     * Delay (in milliseconds) between retry attempts. Superseded by `retryPolicy.baseDelay`
      */
     retrierDelay?: number
+    /**
+     * Retry policy (backoff, retryable status codes, etc.) to be applied to the HTTP operations
+     */
+    retryPolicy?: RetryPolicy
     /**
      * If provided, the underlying `fetch` module will use this value as request timeout
      */
     fetchTimeout?: number | undefined
+    /**
+     * Request compressed (`gzip` or `deflate`) responses from the Application Framework. Defaults to `true`
+     */
+    compression?: boolean
+    /**
+     * Transport object to be used for all HTTP operations. Defaults to the SDK's `https` based one
+     */
+    transport?: Transport
+    /**
+     * Connection pooling options (keep-alive, max sockets, idle timeout) for the SDK's `https` based transport.
+     * Objects created with the same options share the same connection pools. Ignored if `transport` is provided
+     */
+    agentOptions?: AgentOptions
+    /**
+     * Outbound HTTP(S) proxy (URL string or `ProxyOptions` object) for the SDK's `https` based transport. `false`
+     * disables the proxy. Defaults to the `HTTPS_PROXY` and `NO_PROXY` environmental variables. Ignored if
+     * `transport` is provided
+     */
+    proxy?: string | ProxyOptions | false
+    /**
+     * Client-side rate limit and concurrency settings. When options are provided, the throttle is shared by all
+     * objects bound to the same credentials (the options of the first one win). A `Throttle` object can be provided
+     * instead to share it explicitly
+     */
+    throttle?: ThrottleOptions | Throttle
+    /**
+     * Metrics registry this object reports into (request latency, errors, token refreshes and its runtime
+     * statistics). Use `true` to report into `defaultRegistry`. Metrics are disabled by default. The object is
+     * removed from the registry when it is closed
+     */
+    metrics?: MetricsRegistry | boolean
+    /**
+     * Tracer used to create a span for each operation (its context is propagated to the Application Framework
+     * with the W3C `traceparent` header). Defaults to the one set with `setTracer()`
+     */
+    tracer?: Tracer
+    /**
+     * If provided, operations are protected by a circuit breaker. Consecutive failed operations (network errors,
+     * HTTP 5XX or 429 responses after all retry attempts) open the circuit and operations are rejected (and the
+     * auto-poll features paused) until it is probed again
+     */
+    circuitBreaker?: BreakerOptions
+    /**
+     * If provided, it will be called each time the circuit breaker changes its state
+     */
+    breakerListener?: (e: BreakerEvent) => void
+    /**
+     * If provided, it will be called each time a HTTP 401 response forces an access token refresh
+     */
+    authRefreshListener?: (e: AuthRefreshEvent) => void
+    /**
+     * Interceptor (or chain of interceptors, run in order) to be invoked before each request
+     */
+    onRequest?: RequestInterceptor | RequestInterceptor[]
+    /**
+     * Interceptor (or chain of interceptors, run in order) to be invoked after each response
+     */
+    onResponse?: ResponseInterceptor | ResponseInterceptor[]
+    /**
+     * Interceptor (or chain of interceptors, run in order) to be invoked when a request fails
+     */
+    onError?: ErrorInterceptor | ErrorInterceptor[]
+}
+
+function interceptorChain<T>(i?: T | T[]): T[] {
+    if (i === undefined) {
+        return []
+    }
+    return (Array.isArray(i)) ? i : [i]
 }
 
 /**
@@ -75,8 +272,25 @@ export class CoreClass {
      */
     protected fetchHeaders: { [i: string]: string }
     private fetchTimeout: number | undefined
-    private retrierCount?: number
-    private retrierDelay?: number
+    private compression: boolean
+    private retryPolicy: RetryPolicy
+    private transport: Transport
+    private throttle?: Throttle
+    private breaker?: CircuitBreaker
+    private authRefreshListener?: (e: AuthRefreshEvent) => void
+    private ownLogger?: PancloudLogger
+    private metrics?: MetricsRegistry
+    private metricsId?: number
+    private ownTracer?: Tracer
+    private traceAttributes: SpanAttributes
+    private inFlight: Set<Promise<any>>
+    private closing?: Promise<void>
+    private closed: boolean
+    private interceptors: {
+        request: RequestInterceptor[],
+        response: ResponseInterceptor[],
+        error: ErrorInterceptor[]
+    }
     lastResponse: any
     public className: string
     protected stats: CoreStats
@@ -90,17 +304,144 @@ export class CoreClass {
         this.className = "coreClass"
         this.cred = cred
         this.baseUrl = new URL(basePath, cred.getEntryPoint()).toString()
-        if (ops && ops.level != undefined && ops.level != LogLevel.INFO) {
-            commonLogger.level = ops.level
-        }
-        this.retrierCount = (ops) ? ops.retrierCount : undefined
-        this.retrierDelay = (ops) ? ops.retrierDelay : undefined
+        this.ownLogger = scopedLogger((ops) ? ops.logger : undefined, (ops) ? ops.logContext : undefined,
+            (ops) ? ops.level : undefined)
+        this.retryPolicy = (ops) ? retryPolicyFactory(ops.retryPolicy, ops.retrierCount, ops.retrierDelay) : {}
         this.fetchTimeout = (ops) ? ops.fetchTimeout : undefined
+        this.compression = (ops && ops.compression !== undefined) ? ops.compression : true
+        if (ops && ops.transport) {
+            this.transport = ops.transport
+        } else if (ops && (ops.agentOptions || ops.proxy !== undefined)) {
+            this.transport = nodeTransport((ops.proxy !== undefined) ? { ...ops.agentOptions, proxy: ops.proxy } : { ...ops.agentOptions })
+        } else {
+            this.transport = defaultTransport
+        }
+        if (ops && ops.throttle) {
+            this.throttle = (ops.throttle instanceof Throttle) ? ops.throttle : credentialsThrottle(cred, ops.throttle)
+        }
+        if (ops && ops.circuitBreaker) {
+            this.breaker = new CircuitBreaker(this, this.baseUrl, ops.circuitBreaker, ops.breakerListener)
+        }
+        if (ops && ops.metrics) {
+            this.metrics = (ops.metrics === true) ? defaultRegistry : ops.metrics
+            this.metricsId = this.metrics.registerStats(() => this.stats, () => ({ service: this.className }))
+        }
+        this.ownTracer = (ops) ? ops.tracer : undefined
+        this.traceAttributes = {}
+        this.inFlight = new Set()
+        this.closed = false
+        this.authRefreshListener = (ops) ? ops.authRefreshListener : undefined
+        this.interceptors = {
+            request: interceptorChain((ops) ? ops.onRequest : undefined),
+            response: interceptorChain((ops) ? ops.onResponse : undefined),
+            error: interceptorChain((ops) ? ops.onError : undefined)
+        }
         this.stats = {
-            apiTransactions: 0
+            apiTransactions: 0,
+            retryStats: {
+                attempts: 0,
+                retries: 0,
+                exhausted: 0
+            },
+            forcedRefreshes: 0
+        }
+        if (this.transport.stats) {
+            this.stats.transportStats = this.transport.stats
+        }
+        if (this.throttle) {
+            this.stats.throttleStats = this.throttle.stats
+        }
+        if (this.breaker) {
+            this.stats.breakerStats = this.breaker.stats
         }
     }
 
+    /**
+     * Logger scoped to this object (or the common logger if none was configured)
+     */
+    protected get logger(): PancloudLogger {
+        return (this.ownLogger) ? this.ownLogger : commonLogger
+    }
+
+    /**
+     * @returns the logger scoped to this object, to be used by the objects built on top of it
+     */
+    public getLogger(): PancloudLogger {
+        return this.logger
+    }
+
+    /**
+     * Adds attributes to the context of all messages logged by this object
+     */
+    protected addLogContext(context: LogContext): void {
+        this.ownLogger = childLogger(this.logger, context)
+    }
+
+    /**
+     * Tracer for this object's spans (the one set with `setTracer()` if none was configured)
+     */
+    protected get tracer(): Tracer | undefined {
+        return (this.ownTracer) ? this.ownTracer : getTracer()
+    }
+
+    /**
+     * Adds attributes to all operation spans created by this object
+     */
+    protected addTraceAttributes(attributes: SpanAttributes): void {
+        this.traceAttributes = { ...this.traceAttributes, ...attributes }
+    }
+
+    /**
+     * Stops the background activity of this object (auto-poll features, pending queries, correlation state
+     * and receivers) and releases its resources. Further operations are rejected
+     * @param ops drain and timeout options
+     * @returns a promise resolved once the object is fully quiesced. It is rejected (`TIMEOUT`) if the in-flight
+     * work could not be drained in time (the object is closed anyway)
+     */
+    public close(ops?: CloseOptions): Promise<void> {
+        if (!this.closing) {
+            this.closing = this.shutdown(ops)
+        }
+        return this.closing
+    }
+
+    /**
+     * @returns **true** once `close()` has been called
+     */
+    public isClosed(): boolean {
+        return this.closing !== undefined
+    }
+
+    private async shutdown(ops?: CloseOptions): Promise<void> {
+        let drain = (ops && ops.drain !== undefined) ? ops.drain : true
+        let deadline = Date.now() + ((ops && ops.timeout !== undefined) ? ops.timeout : 30000)
+        this.logger.info(this, `Closing (drain = ${drain})`, 'LIFECYCLE')
+        let drained = await this.quiesce(drain, deadline)
+        this.closed = true
+        if (drain) {
+            drained = await settleWithin(Array.from(this.inFlight), deadline) && drained
+        }
+        if (this.metrics && this.metricsId !== undefined) {
+            this.metrics.unregisterStats(this.metricsId)
+            this.metricsId = undefined
+        }
+        if (!drained) {
+            throw new TimeoutError(this, 'Close timeout reached before the in-flight work completed')
+        }
+        this.logger.info(this, 'Closed', 'LIFECYCLE')
+    }
+
+    /**
+     * Stops the background activity of the object as part of `close()`. Classes overriding it must call their
+     * parent's implementation
+     * @param drain wait for the in-flight work to complete
+     * @param deadline absolute time (milliseconds since the Unix epoch) to stop waiting
+     * @returns **false** if the in-flight work could not be drained before the deadline
+     */
+    protected async quiesce(drain: boolean, deadline: number): Promise<boolean> {
+        return true
+    }
+
     /**
      * Prepares the HTTP headers. Mainly used to keep the Autorization header (bearer access-token)
      */
@@ -109,7 +450,7 @@ export class CoreClass {
             'Authorization': 'Bearer ' + await this.cred.getAccessToken(),
             'Content-Type': 'application/json'
         }
-        commonLogger.info(this, 'updated authorization header')
+        this.logger.info(this, 'updated authorization header')
     }
 
     /**
@@ -124,21 +465,182 @@ export class CoreClass {
     private async checkAutoRefresh(): Promise<void> {
         let currentValidUntil = await this.cred.autoRefresh()
         if (this.validUntil != currentValidUntil) {
+            if (this.validUntil !== undefined) {
+                this.countRefresh('auto')
+            }
             this.validUntil = currentValidUntil
             await this.setFetchHeaders()
         }
     }
 
-    private async fetchXWrap(method: HttpMethod, path?: string, body?: string): Promise<any> {
+    private countRefresh(reason: 'auto' | 'forced'): void {
+        if (this.metrics) {
+            this.metrics.counter('token_refreshes_total', 'Access token refreshes').inc({ service: this.className, reason: reason })
+        }
+    }
+
+    /**
+     * Forces the credentials object to provide a new access token (the one used by the request was rejected) and
+     * updates the HTTP headers. Concurrent rejections share a single refresh of the credentials object
+     */
+    private async forceRefresh(ctx: RequestContext): Promise<void> {
+        this.logger.alert(this, `Access token rejected in ${ctx.method} operation to ${ctx.path}. Forcing a refresh`, "FETCHXWRAP")
+        let auth = (ctx.options.headers) ? ctx.options.headers['Authorization'] : undefined
+        let rejected = (auth && auth.startsWith('Bearer ')) ? auth.substr(7) : undefined
+        let triggered = await this.cred.forceRefresh(rejected)
+        this.validUntil = await this.cred.getExpiration()
+        await this.setFetchHeaders()
+        if (triggered) {
+            this.stats.forcedRefreshes++
+            this.countRefresh('forced')
+            if (this.authRefreshListener) {
+                this.authRefreshListener({ source: this.className, method: ctx.method, path: ctx.path })
+            }
+        }
+    }
+
+    /**
+     * @returns milliseconds until the circuit breaker (if any) allows operations again. `0` if they are allowed.
+     * Meant to be used by the auto-poll features to pause while the circuit is open
+     */
+    protected circuitDelay(): number {
+        return (this.breaker) ? this.breaker.retryIn() : 0
+    }
+
+    /**
+     * @returns `true` if a circuit breaker is configured and it is either open or counting consecutive failures
+     * (the last operation failed because of the endpoint, not because of the request itself)
+     */
+    protected endpointDegraded(): boolean {
+        return this.breaker !== undefined &&
+            (this.breaker.stats.state != 'CLOSED' || this.breaker.stats.consecutiveFailures > 0)
+    }
+
+    /**
+     * Sends a single HTTP request through the transport once the throttle (if any) allows it
+     */
+    private async throttledFetch(ctx: RequestContext, cops?: CallOptions): Promise<FetchResponse> {
+        if (!this.throttle) {
+            return this.transport.fetch(ctx.url, ctx.options)
+        }
+        let done = await this.throttle.acquire(this, cops)
+        try {
+            return await this.transport.fetch(ctx.url, ctx.options)
+        } finally {
+            done()
+        }
+    }
+
+    /**
+     * Sends the request through the transport (applying the retry policy and the HTTP 401 replay logic)
+     */
+    private async transportFetch(ctx: RequestContext, idempotent: boolean, cops?: CallOptions): Promise<FetchResponse> {
+        let { signal, release } = callSignal(cops)
+        if (signal) {
+            ctx.options.signal = signal
+        }
+        try {
+            if (this.breaker) {
+                this.breaker.enter()
+            }
+            let r = await policyRetrier(this, this.retryPolicy, idempotent, () => this.throttledFetch(ctx, cops),
+                this.stats.retryStats, cops, this.logger)
+            if (r.status == 401) {
+                await this.forceRefresh(ctx)
+                ctx.options.headers = { ...ctx.options.headers, 'Authorization': this.fetchHeaders['Authorization'] }
+                r = await policyRetrier(this, this.retryPolicy, idempotent, () => this.throttledFetch(ctx, cops),
+                    this.stats.retryStats, cops, this.logger)
+            }
+            if (this.breaker) {
+                if (r.status >= 500 || r.status == 429) {
+                    this.breaker.failure()
+                } else {
+                    this.breaker.success()
+                }
+            }
+            return r
+        } catch (e) {
+            if (this.breaker && !isCircuitOpenError(e)) {
+                if (isAbortError(e)) {
+                    this.breaker.abandon()
+                } else {
+                    this.breaker.failure()
+                }
+            }
+            for (let interceptor of this.interceptors.error) {
+                let recovered = await interceptor(ctx, e)
+                if (recovered) {
+                    return recovered
+                }
+            }
+            throw e
+        } finally {
+            release()
+        }
+    }
+
+    /**
+     * Performs the operation inside a span (if tracing is enabled)
+     */
+    private async fetchXWrap(method: HttpMethod, path?: string, body?: string, query?: FetchQuery,
+        idempotent = true, cops?: CallOptions, parser?: () => BodyParser): Promise<any> {
+        if (this.closed) {
+            throw new PanCloudError(this, 'ABORTED', `${this.className} is closed`)
+        }
+        let request = withSpan(this.tracer, 'pancloud.request', {
+            ...this.traceAttributes,
+            'pancloud.service': this.className,
+            'pancloud.endpoint': endpointLabel(path),
+            'http.method': method
+        }, span => this.fetchXMeasured(method, path, body, query, idempotent, cops, parser, span))
+        this.inFlight.add(request)
+        try {
+            return await request
+        } finally {
+            this.inFlight.delete(request)
+        }
+    }
+
+    /**
+     * Performs the operation reporting its latency and outcome to the metrics registry
+     */
+    private async fetchXMeasured(method: HttpMethod, path?: string, body?: string, query?: FetchQuery,
+        idempotent = true, cops?: CallOptions, parser?: () => BodyParser, span?: Span): Promise<any> {
+        if (!this.metrics) {
+            return this.fetchXRequest(method, path, body, query, idempotent, cops, parser, span)
+        }
+        let metrics = this.metrics
+        let labels = { service: this.className, method: method, endpoint: endpointLabel(path) }
+        let start = Date.now()
+        try {
+            let rJson = await this.fetchXRequest(method, path, body, query, idempotent, cops, parser, span)
+            metrics.counter('requests_total', 'Application Framework operations').inc({ ...labels, status: '2xx' })
+            return rJson
+        } catch (e) {
+            let status = (isSdkError(e) && e.status) ? String(e.status) : 'none'
+            let code = (isSdkError(e)) ? ((e.getErrorCode()) ? e.getErrorCode() : e.name) : 'UNKNOWN'
+            metrics.counter('requests_total', 'Application Framework operations').inc({ ...labels, status: status })
+            metrics.counter('errors_total', 'Failed Application Framework operations').inc({ service: this.className, code: code })
+            throw e
+        } finally {
+            metrics.histogram('request_duration_seconds', 'Application Framework operation latency')
+                .observe(labels, (Date.now() - start) / 1000)
+        }
+    }
+
+    private async fetchXRequest(method: HttpMethod, path?: string, body?: string, query?: FetchQuery,
+        idempotent = true, cops?: CallOptions, parser?: () => BodyParser, span?: Span): Promise<any> {
         let url = this.baseUrl + ((path) ? path : '')
+        throwIfAborted(this, cops)
         this.stats.apiTransactions++
         await this.checkAutoRefresh()
         if (!this.fetchHeaders) {
             await this.setFetchHeaders()
         }
         let rInit: FetchOptions = {
-            headers: this.fetchHeaders,
-            method: method
+            headers: { ...this.fetchHeaders },
+            method: method,
+            compress: this.compression
         }
         if (this.fetchTimeout) {
             rInit.timeout = this.fetchTimeout
@@ -146,24 +648,88 @@ export class CoreClass {
         if (body) {
             rInit.body = body
         }
-        commonLogger.debug(this, `fetch operation to ${url}`, method, body)
-        let r = await retrier(this, this.retrierCount, this.retrierDelay, fetch, url, rInit)
+        if (parser) {
+            rInit.parser = parser
+        }
+        if (query) {
+            rInit.query = query
+        }
+        let parent = (span) ? traceparent(span) : undefined
+        if (parent) {
+            rInit.headers = { ...rInit.headers, 'traceparent': parent }
+        }
+        let ctx: RequestContext = {
+            source: this.className,
+            method: method,
+            path: (path) ? path : '',
+            url: url,
+            options: rInit,
+            logBody: body,
+            span: span
+        }
+        let shortCircuit: FetchResponse | void = undefined
+        for (let interceptor of this.interceptors.request) {
+            shortCircuit = await interceptor(ctx)
+            if (shortCircuit) {
+                this.logger.debug(this, `fetch operation to ${ctx.url} short-circuited by interceptor`, method)
+                break
+            }
+        }
+        let r: FetchResponse
+        if (shortCircuit) {
+            r = shortCircuit
+        } else {
+            this.logger.debug(this, `fetch operation to ${ctx.url}`, method, ctx.logBody)
+            r = await this.transportFetch(ctx, idempotent, cops)
+        }
+        for (let interceptor of this.interceptors.response) {
+            let replacement: FetchResponse | void = await interceptor(ctx, r)
+            if (replacement) {
+                r = replacement
+            }
+        }
+        if (span) {
+            span.setAttribute('http.status_code', r.status)
+            let requestId = r.header(REQUEST_ID_HEADER)
+            if (requestId) {
+                span.setAttribute('pancloud.request_id', requestId)
+            }
+        }
+        let rJson: any
+        if (r.parsed) {
+            rJson = r.json()
+            this.logger.debug(this, 'fetch response', undefined, (ctx.logResponse !== undefined) ? ctx.logResponse : rJson)
+            return rJson
+        }
+        let errCtx: ErrorContext = {
+            status: r.status,
+            method: method,
+            path: ctx.path,
+            requestId: r.header(REQUEST_ID_HEADER)
+        }
         let rText = await r.text()
+        if (!r.ok) {
+            this.logger.alert(this, (ctx.logResponse !== undefined) ? JSON.stringify(ctx.logResponse) : rText, "FETCHXWRAP")
+        }
         if (rText.length == 0) {
-            commonLogger.debug(this, 'fetch response is null')
+            if (!r.ok) {
+                throw httpError(this, `${r.statusText} (empty response)`, errCtx)
+            }
+            this.logger.debug(this, 'fetch response is null')
             return null
         }
-        let rJson: any
         try {
             rJson = JSON.parse(rText)
         } catch (exception) {
-            throw new PanCloudError(this, 'PARSER', `Invalid JSON: ${exception.message}`)
+            if (!r.ok) {
+                throw httpError(this, rText, { ...errCtx, cause: exception })
+            }
+            throw new SchemaError(this, `Invalid JSON: ${exception.message}`, { ...errCtx, cause: exception })
         }
         if (!r.ok) {
-            commonLogger.alert(this, rText, "FETCHXWRAP")
-            throw new ApplicationFrameworkError(this, rJson)
+            throw httpError(this, rJson, errCtx)
         }
-        commonLogger.debug(this, 'fetch response', undefined, rJson)
+        this.logger.debug(this, 'fetch response', undefined, (ctx.logResponse !== undefined) ? ctx.logResponse : rJson)
         return rJson
     }
 
@@ -172,40 +738,48 @@ export class CoreClass {
      * as well as Application Framework errors (non-200) throwing exceptions in both cases.
      * @param url URL to be called
      * @param timeout milliseconds before issuing a timeout exeception. The operation is wrapped by a 'retrier'
-     * that will retry the operation. User can change default retry parameters (3 times / 100 ms) using the right
-     * class configuration properties
+     * that will retry the operation. User can change default retry parameters (3 times / 100 ms base delay) using
+     * the `retryPolicy` class configuration property
+     * @param query optional query parameters to be appended to the URL
+     * @param cops optional cancellation settings
+     * @param parser optional factory of incremental parsers the response body will be streamed to
      * @returns the object returned by the Application Framework
      */
-    protected async fetchGetWrap(path?: string): Promise<any> {
-        return await this.fetchXWrap("GET", path, undefined)
+    protected async fetchGetWrap(path?: string, query?: FetchQuery, cops?: CallOptions,
+        parser?: () => BodyParser): Promise<any> {
+        return await this.fetchXWrap("GET", path, undefined, query, true, cops, parser)
     }
 
     /**
      * Convenience method that abstracts a POST operation to the Application Framework
+     * @param idempotent set it to `false` for operations that must not be retried (unless the retry policy
+     * says otherwise)
      */
-    protected async fetchPostWrap(path?: string, body?: string): Promise<any> {
-        return await this.fetchXWrap("POST", path, body)
+    protected async fetchPostWrap(path?: string, body?: string, query?: FetchQuery, idempotent = true,
+        cops?: CallOptions): Promise<any> {
+        return await this.fetchXWrap("POST", path, body, query, idempotent, cops)
     }
 
     /**
      * Convenience method that abstracts a PUT operation to the Application Framework
      */
-    protected async fetchPutWrap(path?: string, body?: string): Promise<any> {
-        return await this.fetchXWrap("PUT", path, body)
+    protected async fetchPutWrap(path?: string, body?: string, cops?: CallOptions): Promise<any> {
+        return await this.fetchXWrap("PUT", path, body, undefined, true, cops)
     }
 
     /**
      * Convenience method that abstracts a DELETE operation to the Application Framework
      */
-    protected async fetchDeleteWrap(path?: string): Promise<any> {
-        return await this.fetchXWrap("DELETE", path, undefined)
+    protected async fetchDeleteWrap(path?: string, cops?: CallOptions): Promise<any> {
+        return await this.fetchXWrap("DELETE", path, undefined, undefined, true, cops)
     }
 
     /**
      * Convenience method that abstracts a DELETE operation to the Application Framework
      */
-    protected async voidXOperation(path?: string, payload?: string, method: HttpMethod = 'POST'): Promise<void> {
-        let r_json = await this.fetchXWrap(method, path, payload);
+    protected async voidXOperation(path?: string, payload?: string, method: HttpMethod = 'POST',
+        cops?: CallOptions): Promise<void> {
+        let r_json = await this.fetchXWrap(method, path, payload, undefined, true, cops);
         this.lastResponse = r_json
     }
 }
\ No newline at end of file
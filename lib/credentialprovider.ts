@@ -11,10 +11,13 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { retrier, commonLogger, EntryPoint } from './common'
-import { PanCloudError } from './error'
+import { policyRetrier, retryPolicyFactory, commonLogger, EntryPoint, RetryPolicy, RetryStats } from './common'
+import { PanCloudError, AuthError, SchemaError, SdkErr, httpError } from './error'
 import { Credentials } from './credentials'
-import { fetch, FetchOptions } from './fetch'
+import { FetchOptions, FetchResponse, Transport, defaultTransport, nodeTransport } from './fetch'
+import { ProxyOptions } from './proxy'
+import { withSpan, getTracer } from './tracing'
+import { validateEntryPoint } from './regions'
 import { env } from 'process'
 
 const IDP_TOKEN_URL = 'https://api.paloaltonetworks.com/api/oauth2/RequestToken'
@@ -67,6 +70,24 @@ function isIdpErrorResponse(obj: any): obj is IdpErrorResponse {
         obj.error_description !== undefined && typeof obj.error_description == 'string')
 }
 
+/**
+ * Builds the error for a non 2XX IDP response. Quota and server errors keep their own classes. Any other
+ * status means the IDP rejected the credentials
+ */
+function idpHttpError(res: FetchResponse, operation: string): SdkErr {
+    let errorMessage = `HTTP Error from IDP ${operation} operation ${res.status} ${res.statusText}`
+    try {
+        let rJson = JSON.parse(res.text())
+        if (isIdpErrorResponse(rJson)) {
+            errorMessage = `${errorMessage}: ${rJson.error_description}`
+        }
+    } catch { }
+    let afError = { errorCode: 'IDENTITY', errorMessage: errorMessage }
+    let ctx = { status: res.status, method: 'POST' }
+    return (res.status == 429 || res.status >= 500) ? httpError(CortexCredentialProvider, afError, ctx) :
+        new AuthError(CortexCredentialProvider, afError, ctx)
+}
+
 /**
  * Represents an raw Cortex ID refresh response
  */
@@ -92,13 +113,28 @@ export interface CredentialProviderOptions {
      */
     accTokenGuardTime?: number
     /**
-     * How many attempts to contact IDP before giving up. Defaults to `3`
+     * How many attempts to contact IDP before giving up. Defaults to `3`. Superseded by `retryPolicy.maxAttempts`
      */
     retrierAttempts?: number
     /**
-     * How many milliseconds to wait between retry attempts. Defauls to `100` milliseconds
+     * How many milliseconds to wait between retry attempts. Defauls to `100` milliseconds. Superseded by
+     * `retryPolicy.baseDelay`
      */
     retrierDelay?: number
+    /**
+     * Retry policy (backoff, retryable status codes, etc.) to be applied to the IDP operations
+     */
+    retryPolicy?: RetryPolicy
+    /**
+     * Transport object to be used for all IDP operations. Defaults to the SDK's `https` based one
+     */
+    transport?: Transport
+    /**
+     * Outbound HTTP(S) proxy (URL string or `ProxyOptions` object) for the IDP operations. `false` disables
+     * the proxy. Defaults to the `HTTPS_PROXY` and `NO_PROXY` environmental variables. Ignored if `transport`
+     * is provided
+     */
+    proxy?: string | ProxyOptions | false
 }
 
 /**
@@ -115,9 +151,10 @@ export abstract class CortexCredentialProvider<T, K extends keyof T> {
         [dlid: string]: CredentialsItem
     }
     private credentialsObject: { [dlid: string]: Credentials }
-    private retrierAttempts?: number
-    private retrierDelay?: number
+    private retryPolicy: RetryPolicy
+    private retryStats: RetryStats
     private accTokenGuardTime: number
+    private transport: Transport
     protected tenantKey?: K
     static className = 'CortexCredentialProvider'
 
@@ -135,8 +172,13 @@ export abstract class CortexCredentialProvider<T, K extends keyof T> {
         this.idpTokenUrl = (ops.idpTokenUrl) ? ops.idpTokenUrl : IDP_TOKEN_URL
         this.idpRevokeUrl = (ops.idpRevokeUrl) ? ops.idpRevokeUrl : IDP_REVOKE_URL
         this.accTokenGuardTime = (ops.accTokenGuardTime) ? ops.accTokenGuardTime : ACCESS_GUARD
-        this.retrierAttempts = ops.retrierAttempts
-        this.retrierDelay = ops.retrierDelay
+        this.retryPolicy = retryPolicyFactory(ops.retryPolicy, ops.retrierAttempts, ops.retrierDelay)
+        this.retryStats = { attempts: 0, retries: 0, exhausted: 0 }
+        if (ops.transport) {
+            this.transport = ops.transport
+        } else {
+            this.transport = (ops.proxy !== undefined) ? nodeTransport({ proxy: ops.proxy }) : defaultTransport
+        }
         this.tenantKey = tenantKey
         if (this.accTokenGuardTime > 3300) {
             throw new PanCloudError(CortexCredentialProvider, 'CONFIG', `Property 'accTokenGuardTime' must be, at max 3300 seconds (${this.accTokenGuardTime})`)
@@ -150,43 +192,64 @@ export abstract class CortexCredentialProvider<T, K extends keyof T> {
         return [this.clientId, this.clientSecret]
     }
 
+    /**
+     * @returns runtime statistics of the retry engine used in IDP operations
+     */
+    getRetryStats(): RetryStats {
+        return this.retryStats
+    }
+
     /**
      * Do not use this method unless you know what you're doing. It is exposed because `CortexHubHelper`
      * subclasses need it
+     * @param param the request options. A string is sent as the JSON body of a POST request
      */
     async idpRefresh(param: string | FetchOptions): Promise<AugmentedIdpResponse> {
-        let res = await retrier(CortexCredentialProvider, this.retrierAttempts, this.retrierDelay, fetch, this.idpTokenUrl, param)
+        let ops: FetchOptions = (typeof param == 'string') ? {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'application/json'
+            },
+            body: param
+        } : param
+        let res = await policyRetrier(CortexCredentialProvider, this.retryPolicy, true,
+            () => this.transport.fetch(this.idpTokenUrl, ops), this.retryStats)
         if (!res.ok) {
-            throw new PanCloudError(CortexCredentialProvider, 'IDENTITY', `HTTP Error from IDP refresh operation ${res.status} ${res.statusText}`)
+            throw idpHttpError(res, 'refresh')
         }
         let rJson: any
         try {
             rJson = await res.json()
         } catch (exception) {
-            throw new PanCloudError(CortexCredentialProvider, 'PARSER', `Invalid JSON refresh response: ${exception.message}`)
+            throw new SchemaError(CortexCredentialProvider, `Invalid JSON refresh response: ${exception.message}`,
+                { cause: exception })
         }
         if (isIdpErrorResponse(rJson)) {
-            throw new PanCloudError(CortexCredentialProvider, 'IDENTITY', rJson.error_description)
+            throw new AuthError(CortexCredentialProvider, { errorCode: 'IDENTITY', errorMessage: rJson.error_description },
+                { status: res.status, method: 'POST' })
         }
         try {
             let augmentedResponse = this.parseIdpResponse(rJson)
             commonLogger.info(CortexCredentialProvider, 'Authorization token successfully retrieved', 'IDENTITY')
             return augmentedResponse
         } catch {
-            throw new PanCloudError(CortexCredentialProvider, 'PARSER', `Unparseable response received from IDP refresh operation: '${JSON.stringify(rJson)}'`)
+            throw new SchemaError(CortexCredentialProvider, `Unparseable response received from IDP refresh operation: '${JSON.stringify(rJson)}'`)
         }
     }
 
     private async idpRevoke(url: string, param: FetchOptions): Promise<void> {
-        let res = await retrier(CortexCredentialProvider, this.retrierAttempts, this.retrierDelay, fetch, url, param)
+        let res = await policyRetrier(CortexCredentialProvider, this.retryPolicy, true,
+            () => this.transport.fetch(url, param), this.retryStats)
         if (!res.ok) {
-            throw new PanCloudError(CortexCredentialProvider, 'IDENTITY', `HTTP Error from IDP refresh operation ${res.status} ${res.statusText}`)
+            throw idpHttpError(res, 'revoke')
         }
         let rJson: any
         try {
             rJson = await res.json()
         } catch (exception) {
-            throw new PanCloudError(CortexCredentialProvider, 'PARSER', `Invalid JSON revoke response: ${exception.message}`)
+            throw new SchemaError(CortexCredentialProvider, `Invalid JSON revoke response: ${exception.message}`,
+                { cause: exception })
         }
         if (rJson.issuccess && typeof rJson.issuccess == 'string' && rJson.issuccess == 'true') {
             return
@@ -241,6 +304,7 @@ export abstract class CortexCredentialProvider<T, K extends keyof T> {
         if (metadata !== undefined && this.tenantKey === undefined) {
             throw new PanCloudError(CortexCredentialProvider, 'CONFIG', 'Metadata provided without proper initialization of the tenantKey property. Review your subclass constructor.')
         }
+        entryPoint = validateEntryPoint(entryPoint, CortexCredentialProvider)
         if (!this.credentials) {
             await this.restoreState()
         }
@@ -347,8 +411,9 @@ export abstract class CortexCredentialProvider<T, K extends keyof T> {
      * expiration time. It auto-refreshes the `access_token` if needed based on the `accTokenGuardTime`
      * class configuration option
      * @param datalakeId ID of the datalake to obtain `access_token` from
+     * @param force request a new `access_token` even if the cached one is not about to expire
      */
-    async retrieveCortexAccessToken(datalakeId: string): Promise<RefreshResult> {
+    async retrieveCortexAccessToken(datalakeId: string, force = false): Promise<RefreshResult> {
         if (this.credentials === undefined || this.credentials[datalakeId] === undefined) {
             await this.restoreState()
         }
@@ -356,16 +421,24 @@ export abstract class CortexCredentialProvider<T, K extends keyof T> {
             throw new PanCloudError(CortexCredentialProvider, 'IDENTITY', `Datalake ${datalakeId} not in database`)
         }
         let credentials = this.credentials[datalakeId]
-        if (Date.now() + this.accTokenGuardTime * 1000 > credentials.validUntil * 1000) {
+        if (force || Date.now() + this.accTokenGuardTime * 1000 > credentials.validUntil * 1000) {
             commonLogger.info(CortexCredentialProvider, 'Asking for a new access_token')
-            let idpResponse = await this.refreshAccessToken(credentials.refreshToken)
-            credentials.accessToken = idpResponse.access_token
-            credentials.validUntil = idpResponse.validUntil
-            if (idpResponse.refresh_token) {
-                credentials.refreshToken = idpResponse.refresh_token
-                commonLogger.info(CortexCredentialProvider, 'Received new Cortex Refresh Token')
-            }
-            await this.updateCredentialsItem(datalakeId, credentials)
+            await withSpan(getTracer(), 'pancloud.idp.refresh', {
+                'pancloud.datalake_id': datalakeId,
+                'pancloud.forced': force
+            }, async span => {
+                let idpResponse = await this.refreshAccessToken(credentials.refreshToken)
+                credentials.accessToken = idpResponse.access_token
+                credentials.validUntil = idpResponse.validUntil
+                if (idpResponse.refresh_token) {
+                    credentials.refreshToken = idpResponse.refresh_token
+                    commonLogger.info(CortexCredentialProvider, 'Received new Cortex Refresh Token')
+                }
+                if (span) {
+                    span.setAttribute('pancloud.refresh_token_rotated', !!idpResponse.refresh_token)
+                }
+                await this.updateCredentialsItem(datalakeId, credentials)
+            })
         }
         return {
             accessToken: credentials.accessToken,
@@ -385,7 +458,7 @@ export abstract class CortexCredentialProvider<T, K extends keyof T> {
                 }
             }
         }
-        throw new PanCloudError(CortexCredentialProvider, 'PARSER', `Invalid response received by IDP provider`)
+        throw new SchemaError(CortexCredentialProvider, `Invalid response received by IDP provider`)
     }
 
     /**
@@ -504,8 +577,8 @@ class DefaultCredentials<T, K extends keyof T> extends Credentials {
         this.className = 'DefaultCredentials'
     }
 
-    async retrieveAccessToken(): Promise<void> {
-        let refreshObj = await this.accessTokenSupplier.retrieveCortexAccessToken(this.datalakeId)
+    async retrieveAccessToken(force = false): Promise<void> {
+        let refreshObj = await this.accessTokenSupplier.retrieveCortexAccessToken(this.datalakeId, force)
         this.setAccessToken(refreshObj.accessToken, refreshObj.validUntil)
         commonLogger.info(this, `Successfully cached a new access token for datalake ID ${this.datalakeId}`)
     }
@@ -18,6 +18,8 @@
 
 import { PancloudClass, EntryPoint, commonLogger } from './common'
 import { PanCloudError } from './error';
+import { withSpan, getTracer } from './tracing'
+import { validateEntryPoint } from './regions'
 
 /**
  * Base abstract CredentialS class 
@@ -28,11 +30,12 @@ export abstract class Credentials implements PancloudClass {
     private accessToken: string
     public className: string
     private guardTime: number
+    private pendingRefresh?: Promise<void>
 
     constructor(entryPoint: EntryPoint, guardTime?: number) {
-        this.entryPoint = entryPoint
-        this.guardTime = (guardTime) ? guardTime : 300
         this.className = "Credentials"
+        this.entryPoint = validateEntryPoint(entryPoint, this)
+        this.guardTime = (guardTime) ? guardTime : 300
         if (this.guardTime > 3300) {
             throw new PanCloudError(this, 'CONFIG', `Property 'accTokenGuardTime' must be, at max 3300 seconds (${this.guardTime})`)
         }
@@ -75,7 +78,15 @@ export abstract class Credentials implements PancloudClass {
         if (Date.now() + this.guardTime * 1000 > this.validUntil * 1000) {
             try {
                 commonLogger.info(this, 'Cached access token about to expire. Requesting a new one.')
-                await this.retrieveAccessToken()
+                await withSpan(getTracer(), 'pancloud.credentials.refresh', {
+                    'pancloud.credentials': this.className,
+                    'pancloud.entry_point': this.entryPoint
+                }, async span => {
+                    await this.retrieveAccessToken()
+                    if (span) {
+                        span.setAttribute('pancloud.token_expiration', this.validUntil)
+                    }
+                })
                 return this.validUntil
             } catch {
                 commonLogger.info(this, 'Failed to get a new access token')
@@ -84,10 +95,33 @@ export abstract class Credentials implements PancloudClass {
         return this.validUntil
     }
 
+    /**
+     * Forces a new access token after the Application Framework rejected one. Concurrent calls share the same
+     * refresh operation and no refresh is performed if the rejected token has already been replaced
+     * @param rejectedToken the access token that was rejected
+     * @returns `true` if this call triggered the refresh
+     */
+    public forceRefresh(rejectedToken?: string): Promise<boolean> {
+        if (this.pendingRefresh) {
+            return this.pendingRefresh.then(() => false)
+        }
+        if (rejectedToken !== undefined && this.accessToken && rejectedToken != this.accessToken) {
+            return Promise.resolve(false)
+        }
+        let clear = () => { this.pendingRefresh = undefined }
+        this.pendingRefresh = this.retrieveAccessToken(true).then(clear, e => {
+            clear()
+            throw e
+        })
+        return this.pendingRefresh.then(() => true)
+    }
+
     /**
      * Triggers an access token refresh request
+     * @param force if `true` the implementation must not return a cached access token (i.e. the
+     * Application Framework rejected the current one)
      */
-    public async abstract retrieveAccessToken(): Promise<void>
+    public async abstract retrieveAccessToken(force?: boolean): Promise<void>
 }
 
 class StaticCredentials extends Credentials {
@@ -12,10 +12,10 @@
 // limitations under the License.
 
 import { env } from 'process'
-import { fetch } from './fetch'
+import { Transport, defaultTransport } from './fetch'
 import { Credentials } from './credentials'
-import { retrier, expTokenExtractor, EntryPoint } from './common'
-import { PanCloudError } from './error'
+import { policyRetrier, expTokenExtractor, EntryPoint, RetryPolicy, RetryStats } from './common'
+import { PanCloudError, SchemaError, httpError } from './error'
 
 const ENV_DEVELOPER_TOKEN = 'PAN_DEVELOPER_TOKEN'
 const ENV_DEVELOPER_TOKEN_PROVIDER = 'PAN_DEVELOPER_TOKEN_PROVIDER'
@@ -48,12 +48,25 @@ export interface DevTokenCredentialsOptions {
      */
     developerToken?: string,
     entryPoint?: EntryPoint,
-    guardTime?: number
+    guardTime?: number,
+    /**
+     * Transport object to be used to contact the developer token provider. Defaults to the SDK's
+     * `https` based one
+     */
+    transport?: Transport,
+    /**
+     * Retry policy (backoff, retryable status codes, etc.) to be applied when contacting the developer
+     * token provider
+     */
+    retryPolicy?: RetryPolicy
 }
 
 export class DevTokenCredentials extends Credentials {
     private developerToken: string
     private developerTokenProvider: string
+    private transport: Transport
+    private retryPolicy: RetryPolicy
+    private retryStats: RetryStats
     static className = 'DevTokenCredentials'
 
     constructor(ops?: DevTokenCredentialsOptions) {
@@ -70,37 +83,49 @@ export class DevTokenCredentials extends Credentials {
         let finalTokenProvider = tokenProvider ? tokenProvider : DEV_TOKEN_PROVIDER
         this.developerToken = developerToken
         this.developerTokenProvider = finalTokenProvider
+        this.transport = (ops && ops.transport) ? ops.transport : defaultTransport
+        this.retryPolicy = (ops && ops.retryPolicy) ? ops.retryPolicy : {}
+        this.retryStats = { attempts: 0, retries: 0, exhausted: 0 }
     }
 
-    private static async devTokenConsume(entrypoint: string, token: string): Promise<string> {
-        let res = await retrier(DevTokenCredentials, undefined, undefined, fetch, entrypoint, {
+    private async devTokenConsume(entrypoint: string, token: string): Promise<string> {
+        let res = await policyRetrier(DevTokenCredentials, this.retryPolicy, true, () => this.transport.fetch(entrypoint, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'Accept': 'application/json',
                 'Authorization': `Bearer ${token}`
             }
-        })
+        }), this.retryStats)
         if (!res.ok) {
-            throw new PanCloudError(DevTokenCredentials, 'UNKNOWN',
-                `non 200 Response from the Developer Token Provider at ${entrypoint}`)
+            throw httpError(DevTokenCredentials, {
+                errorCode: 'UNKNOWN',
+                errorMessage: `non 200 Response from the Developer Token Provider at ${entrypoint}`
+            }, { status: res.status, method: 'POST' })
         }
         let rJson: any
         try {
             rJson = await res.json()
         } catch (exception) {
-            throw new PanCloudError(DevTokenCredentials, 'PARSER',
-                `non valid JSON content received from the Developer Token Provider at ${entrypoint}`)
+            throw new SchemaError(DevTokenCredentials,
+                `non valid JSON content received from the Developer Token Provider at ${entrypoint}`, { cause: exception })
         }
         if (isApexResponse(rJson)) {
             return rJson.access_token
         }
-        throw new PanCloudError(DevTokenCredentials, 'PARSER',
+        throw new SchemaError(DevTokenCredentials,
             `non valid access_token property found in the response received from the Developer Token Provider at ${entrypoint}`)
     }
 
+    /**
+     * @returns runtime statistics of the retry engine used to contact the developer token provider
+     */
+    public getRetryStats(): RetryStats {
+        return this.retryStats
+    }
+
     public async retrieveAccessToken(): Promise<void> {
-        let accessToken = await DevTokenCredentials.devTokenConsume(this.developerTokenProvider, this.developerToken)
+        let accessToken = await this.devTokenConsume(this.developerTokenProvider, this.developerToken)
         this.setAccessToken(accessToken, expTokenExtractor(this, accessToken))
     }
 }
\ No newline at end of file
@@ -13,7 +13,9 @@
 
 import { ApiPath, commonLogger } from "./common"
 import { CoreClass, CoreOptions, CoreStats } from "./core"
-import { PanCloudError } from "./exceptions";
+import { FetchQuery } from "./fetch"
+import { CallOptions } from "./abort"
+import { SchemaError } from "./error";
 import { Credentials } from "./credentials";
 
 const DSS_PATH: ApiPath = "directory-sync-service/v1"
@@ -273,62 +275,66 @@ export class DirectorySyncService extends CoreClass {
         return new DirectorySyncService(cred, DSS_PATH, ops)
     }
 
-    private async fetcher<T, R>(path: string, checker: (a: any) => a is T, action: (b: T) => R, query?: DssQueryFilter | {}): Promise<R> {
+    private async fetcher<T, R>(path: string, checker: (a: any) => a is T, action: (b: T) => R,
+        query?: DssQueryFilter | {}, params?: FetchQuery, cops?: CallOptions): Promise<R> {
         let res: any
         if (query) {
-            res = await this.fetchPostWrap(path, JSON.stringify(query))
+            res = await this.fetchPostWrap(path, JSON.stringify(query), params, true, cops)
         } else {
-            res = await this.fetchGetWrap(path)
+            res = await this.fetchGetWrap(path, params, cops)
         }
         if (checker(res)) {
             return action(res)
         }
-        throw new PanCloudError(`Invalid schema in the response received: ${JSON.stringify(res)}`)
+        throw new SchemaError(this, `Invalid schema in the response received: ${JSON.stringify(res)}`)
     }
 
     /**
      * Get Directory Attribute Map
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns the attribute map for this customer's directory
      */
-    async attributes(): Promise<DssAttributeMap> {
+    async attributes(cops?: CallOptions): Promise<DssAttributeMap> {
         this.stats.attributeCalls++
-        commonLogger.info(this, '*attributes* get request')
-        return this.fetcher('/attributes', isDssResponseAttrMap, x => x.result)
+        this.logger.info(this, '*attributes* get request')
+        return this.fetcher('/attributes', isDssResponseAttrMap, x => x.result, undefined, undefined, cops)
     }
 
     /**
      * Get the list of domains managed by this agent
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns the list of domains
      */
-    async domains(): Promise<DssDomain[]> {
+    async domains(cops?: CallOptions): Promise<DssDomain[]> {
         this.stats.domainCalls++
-        commonLogger.info(this, '*domains* get request')
-        return this.fetcher('/domains', isDssResponseDomains, x => x.result)
+        this.logger.info(this, '*domains* get request')
+        return this.fetcher('/domains', isDssResponseDomains, x => x.result, undefined, undefined, cops)
     }
 
     /**
      * Get the number of elements of a specific object class in a given domain
      * @param domain domain name
      * @param objClass a valid **string** in the type *DssObjClass*
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns the number of entries for the provided object class and domain
      */
-    async count(domain: string, objClass: DssObjClass): Promise<number> {
+    async count(domain: string, objClass: DssObjClass, cops?: CallOptions): Promise<number> {
         this.stats.countCalls++
-        commonLogger.info(this, `${objClass}/count get request for domain ${domain}`)
-        return this.fetcher(`/${objClass}/count?domain=${encodeURIComponent(domain)}`,
-            isDssResponseCount, x => x.result.count)
+        this.logger.info(this, `${objClass}/count get request for domain ${domain}`)
+        return this.fetcher(`/${objClass}/count`, isDssResponseCount, x => x.result.count, undefined, { domain }, cops)
     }
 
     /**
      * Perform a Directory Sync Services Query
      * @param objClass a valid **string** in the type *DssObjClass*
      * @param query object describing the query to be performed
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns the response objecct
      */
-    async query(objClass: DssObjClass, query?: DssQueryFilter): Promise<DssResponseQuery> {
+    async query(objClass: DssObjClass, query?: DssQueryFilter, cops?: CallOptions): Promise<DssResponseQuery> {
         this.stats.queryCalls++
-        commonLogger.info(this, `*query* request for ${objClass}. Query: ${query}`)
-        return this.fetcher(`/${objClass}`, isDssResponseQuery, x => x, (query) ? query : {})
+        this.logger.info(this, `*query* request for ${objClass}. Query: ${query}`)
+        return this.fetcher(`/${objClass}`, isDssResponseQuery, x => x, (query) ? query : {}, undefined, cops)
     }
 
     /**
@@ -11,18 +11,26 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { LogType, commonLogger, LogLevel } from './common'
+import { LogType, childLogger } from './common'
 import { CoreClass, CoreOptions, CoreStats } from './core'
-import { PanCloudError } from './error'
+import { PanCloudError, SdkErr } from './error'
 import { MacCorrelator, CorrelatedEvent, CorrelationStats } from './l2correlator'
 import { EventEmitter } from 'events'
 import { Util } from './util'
 import { Credentials } from './credentials';
+import { settleWithin } from './lifecycle'
 
 const EVENT_EVENT = 'EVENT_EVENT'
 const PCAP_EVENT = 'PCAP_EVENT'
 const CORR_EVENT = 'CORR_EVENT'
-type EventTypes = typeof EVENT_EVENT | typeof PCAP_EVENT | typeof CORR_EVENT
+const ERROR_EVENT = 'ERROR_EVENT'
+const CONTROL_EVENT = 'CONTROL_EVENT'
+type EventTypes = typeof EVENT_EVENT | typeof PCAP_EVENT | typeof CORR_EVENT | typeof ERROR_EVENT | typeof CONTROL_EVENT
+
+/**
+ * Event receivers can be async. Their returned promise is only awaited by the at-least-once delivery features
+ */
+export type EmitterListener<T> = (e: EmitterInterface<T>) => void | Promise<void>
 
 /**
  * coreClass supports "async operations". In this mode, events received by the Framework will be send to its
@@ -76,6 +84,53 @@ export interface L2correlation {
     "extended-traffic-log-mac-stc": string
 }
 
+/**
+ * Messages delivered to the subscribers of each topic. **control** messages are only sent by the
+ * Logging Service (query status updates)
+ */
+export interface EmitterTopics<C> {
+    event: EmitterInterface<any[]>
+    pcap: EmitterInterface<Buffer>
+    correlation: EmitterInterface<L2correlation[]>
+    error: SdkErr
+    control: C
+}
+
+export type EmitterTopic = keyof EmitterTopics<any>
+
+const TOPIC_EVENTS: { [topic in EmitterTopic]: EventTypes } = {
+    event: EVENT_EVENT,
+    pcap: PCAP_EVENT,
+    correlation: CORR_EVENT,
+    error: ERROR_EVENT,
+    control: CONTROL_EVENT
+}
+
+/**
+ * Restricts a subscription to the messages of a log type and/or a query
+ */
+export interface EmitterScope {
+    /**
+     * Only messages of this log type are delivered
+     */
+    logType?: LogType
+    /**
+     * Only messages originated by this Logging Service query are delivered
+     */
+    queryId?: string
+}
+
+/**
+ * Subscription handler. It can be async (see `EmitterListener`)
+ */
+export type EmitterHandler<T> = (message: T) => void | Promise<void>
+
+interface Subscription {
+    event: EventTypes
+    handler: Function
+    wrapper: (message: any, scope?: EmitterScope) => void | Promise<void>
+}
+
 /**
  * Runtime statistics generated by the Emitter class
  */
@@ -133,12 +188,15 @@ export interface EmitterOptions extends CoreOptions {
     }
 }
 
-export class Emitter extends CoreClass {
+export class Emitter<C = never> extends CoreClass {
     protected emitter: EventEmitter
     private allowDupReceiver: boolean
     private notifier: { [event: string]: boolean }
     protected l2enable: boolean
     protected l2engine: MacCorrelator
+    private settling?: Promise<void>[]
+    private handlers: Set<Promise<void>>
+    private subscriptions: Subscription[]
     public className: string
     protected stats: EmitterStats
 
@@ -146,10 +204,9 @@ export class Emitter extends CoreClass {
         super(cred, baseUrl, ops)
         this.className = "emitterClass"
         this.allowDupReceiver = (ops && ops.allowDup !== undefined) ? ops.allowDup : false
+        this.handlers = new Set()
+        this.subscriptions = []
         this.newEmitter()
-        if (ops && ops.level != undefined && ops.level != LogLevel.INFO) {
-            commonLogger.level = ops.level
-        }
         this.stats = {
             correlationEmitted: 0,
             eventsEmitted: 0,
@@ -168,7 +225,7 @@ export class Emitter extends CoreClass {
         }
     }
 
-    private registerListener(event: EventTypes, l: (...args: any[]) => void): boolean {
+    private registerListener(event: EventTypes, l: (...args: any[]) => void | Promise<void>): boolean {
         if (this.allowDupReceiver || !this.emitter.listeners(event).includes(l)) {
             this.emitter.on(event, l)
             this.notifier[event] = true
@@ -177,7 +234,7 @@ export class Emitter extends CoreClass {
         return false
     }
 
-    private unregisterListener(event: EventTypes, l: (...args: any[]) => void): void {
+    private unregisterListener(event: EventTypes, l: (...args: any[]) => void | Promise<void>): void {
         this.emitter.removeListener(event, l)
         this.notifier[event] = (this.emitter.listenerCount(event) > 0)
     }
@@ -190,7 +247,7 @@ export class Emitter extends CoreClass {
      * listener has already been registered and the factory option **allowDupReceiver** was
      * not set to _true_
      */
-    protected registerEventListener(listener: (e: EmitterInterface<any[]>) => void): boolean {
+    protected registerEventListener(listener: EmitterListener<any[]>): boolean {
         return this.registerListener(EVENT_EVENT, listener)
     }
 
@@ -198,7 +255,7 @@ export class Emitter extends CoreClass {
      * Unregisters the listener from the **EVENT_EVENT** topic
      * @param listener 
      */
-    protected unregisterEventListener(listener: (e: EmitterInterface<any[]>) => void): void {
+    protected unregisterEventListener(listener: EmitterListener<any[]>): void {
         this.unregisterListener(EVENT_EVENT, listener)
     }
 
@@ -211,7 +268,7 @@ export class Emitter extends CoreClass {
      * listener has already been registered and the factory option **allowDupReceiver** was
      * not set to _true_
      */
-    protected registerPcapListener(listener: (e: EmitterInterface<Buffer>) => void): boolean {
+    protected registerPcapListener(listener: EmitterListener<Buffer>): boolean {
         return this.registerListener(PCAP_EVENT, listener)
     }
 
@@ -219,7 +276,7 @@ export class Emitter extends CoreClass {
      * Unregisters the listener from the **PCAP_EVENT** topic
      * @param listener 
      */
-    protected unregisterPcapListener(listener: (e: EmitterInterface<Buffer>) => void): void {
+    protected unregisterPcapListener(listener: EmitterListener<Buffer>): void {
         this.unregisterListener(PCAP_EVENT, listener)
     }
 
@@ -232,7 +289,7 @@ export class Emitter extends CoreClass {
      * listener has already been registered and the factory option **allowDupReceiver** was
      * not set to _true_
      */
-    protected registerCorrListener(listener: (e: EmitterInterface<L2correlation[]>) => void): boolean {
+    protected registerCorrListener(listener: EmitterListener<L2correlation[]>): boolean {
         return this.registerListener(CORR_EVENT, listener)
     }
 
@@ -240,19 +297,76 @@ export class Emitter extends CoreClass {
      * Unregisters the listener from the **PCAP_EVENT** topic
      * @param listener 
      */
-    protected unregisterCorrListener(listener: (e: EmitterInterface<L2correlation[]>) => void): void {
+    protected unregisterCorrListener(listener: EmitterListener<L2correlation[]>): void {
         this.unregisterListener(CORR_EVENT, listener)
     }
 
+    /**
+     * Subscribes a handler to a topic
+     * @param topic the topic
+     * @param handler receiver of the topic messages
+     * @param scope if provided, only the messages of its log type and/or query are delivered
+     * @returns a function that unsubscribes the handler
+     */
+    public on<K extends EmitterTopic>(topic: K, handler: EmitterHandler<EmitterTopics<C>[K]>, scope?: EmitterScope): () => void {
+        return this.subscribe(topic, handler, false, scope)
+    }
+
+    /**
+     * Like `on()`, but the handler is unsubscribed after the first message it receives
+     */
+    public once<K extends EmitterTopic>(topic: K, handler: EmitterHandler<EmitterTopics<C>[K]>, scope?: EmitterScope): () => void {
+        return this.subscribe(topic, handler, true, scope)
+    }
+
+    /**
+     * Unsubscribes all the subscriptions of the handler to the topic
+     */
+    public off<K extends EmitterTopic>(topic: K, handler: EmitterHandler<EmitterTopics<C>[K]>): void {
+        this.subscriptions.filter(s => s.event == TOPIC_EVENTS[topic] && s.handler == handler).forEach(s => this.unsubscribe(s))
+    }
+
+    private subscribe(topic: EmitterTopic, handler: Function, once: boolean, scope?: EmitterScope): () => void {
+        let subscription: Subscription = {
+            event: TOPIC_EVENTS[topic],
+            handler: handler,
+            wrapper: (message: any, messageScope?: EmitterScope) => {
+                if (scope && !inScope(scope, (messageScope) ? messageScope : topicScope(topic, message))) {
+                    return
+                }
+                if (once) {
+                    this.unsubscribe(subscription)
+                }
+                return handler(message)
+            }
+        }
+        this.subscriptions.push(subscription)
+        this.registerListener(subscription.event, subscription.wrapper)
+        return () => this.unsubscribe(subscription)
+    }
+
+    private unsubscribe(subscription: Subscription): void {
+        let i = this.subscriptions.indexOf(subscription)
+        if (i != -1) {
+            this.subscriptions.splice(i, 1)
+            this.unregisterListener(subscription.event, subscription.wrapper)
+        }
+    }
+
+    /**
+     * Replaces the receivers provided by the filter / query configuration. Subscriptions made with `on()` and
+     * `once()` are kept
+     */
     protected newEmitter(
-        ee?: (e: EmitterInterface<any[]>) => void,
-        pe?: (arg: EmitterInterface<Buffer>) => void,
-        ce?: (e: EmitterInterface<L2correlation[]>) => void) {
+        ee?: EmitterListener<any[]>,
+        pe?: EmitterListener<Buffer>,
+        ce?: EmitterListener<L2correlation[]>) {
         this.emitter = new EventEmitter()
         this.emitter.on('error', (err) => {
-            commonLogger.error(PanCloudError.fromError(this, err))
+            this.emitError(PanCloudError.fromError(this, err))
         })
         this.notifier = { EVENT_EVEN: false, PCAP_EVENT: false, CORRELATION_EVENT: false }
+        this.subscriptions.forEach(s => this.registerListener(s.event, s.wrapper))
         if (ee) {
             this.registerEventListener(ee)
         }
@@ -284,11 +398,96 @@ export class Emitter extends CoreClass {
         }
     }
 
+    /**
+     * Emits the message and waits for all its receivers (sync or async) to complete
+     * @throws the first error thrown (or promise rejected) by a receiver, once all of them have completed
+     */
+    protected async emitMessageSettled(e: EmitterInterface<any[]>): Promise<void> {
+        let settling: Promise<void>[] = []
+        this.settling = settling
+        try {
+            this.emitMessage(e)
+        } finally {
+            this.settling = undefined
+        }
+        let errors: any[] = []
+        await Promise.all(settling.map(p => p.catch(err => { errors.push(err) })))
+        if (errors.length) {
+            throw errors[0]
+        }
+    }
+
+    private dispatch(event: EventTypes, message: EmitterInterface<any>): void {
+        let settling = this.settling
+        if (!settling) {
+            this.emitter.listeners(event).forEach(l => this.track(l.call(this.emitter, message), event))
+            return
+        }
+        this.emitter.listeners(event).forEach(l => {
+            try {
+                settling!.push(Promise.resolve(l(message)))
+            } catch (err) {
+                settling!.push(Promise.reject(err))
+            }
+        })
+    }
+
+    /**
+     * Logs the error and sends it to the subscribers of the **error** topic
+     * @param err the error
+     * @param scope log type and/or query the error relates to
+     */
+    protected emitError(err: SdkErr, scope?: EmitterScope): void {
+        let logger = (scope) ? childLogger(this.logger, { ...scope }) : this.logger
+        logger.error(err)
+        this.notify(ERROR_EVENT, err, scope)
+    }
+
+    /**
+     * Sends a message to the subscribers of the **control** topic
+     */
+    protected emitControl(message: C, scope?: EmitterScope): void {
+        this.notify(CONTROL_EVENT, message, scope)
+    }
+
+    private notify(event: typeof ERROR_EVENT | typeof CONTROL_EVENT, message: any, scope?: EmitterScope): void {
+        if (!this.notifier[event]) {
+            return
+        }
+        this.emitter.listeners(event).forEach(l => {
+            try {
+                this.track(l.call(this.emitter, message, scope), event)
+            } catch (err) {
+                this.track(Promise.reject(err), event)
+            }
+        })
+    }
+
+    /**
+     * Keeps track of the async receivers in progress so they can be drained by `close()`. Their failures are
+     * sent to the **error** topic
+     */
+    private track(result: any, event: EventTypes): void {
+        if (result && typeof result.then == 'function') {
+            let handler: Promise<void> = Promise.resolve(result).then(() => { }, err => {
+                let sdkErr = PanCloudError.fromError(this, err)
+                if (event == ERROR_EVENT) {
+                    this.logger.error(sdkErr)
+                } else {
+                    this.emitError(sdkErr)
+                }
+            }).then(() => {
+                this.handlers.delete(handler)
+            })
+            this.handlers.add(handler)
+        }
+    }
+
     private emitEvent(e: EmitterInterface<any[]>): void {
         if (e.message) {
             this.stats.eventsEmitted += e.message.length
         }
-        this.emitter.emit(EVENT_EVENT, e)
+        this.dispatch(EVENT_EVENT, e)
     }
 
     private emitPcap(e: EmitterInterface<any[]>): void {
@@ -300,12 +499,11 @@ export class Emitter extends CoreClass {
                 let pcapBody = Util.pcaptize(x)
                 if (pcapBody) {
                     this.stats.pcapsEmitted++
-                    message.message = pcapBody
-                    this.emitter.emit(PCAP_EVENT, message)
+                    this.dispatch(PCAP_EVENT, { ...message, message: pcapBody })
                 }
             })
         } else {
-            this.emitter.emit(PCAP_EVENT, message)
+            this.dispatch(PCAP_EVENT, message)
         }
     }
 
@@ -314,7 +512,7 @@ export class Emitter extends CoreClass {
             this.stats.correlationEmitted += e.message.length
         }
         if (e.message) {
-            this.emitter.emit(CORR_EVENT, {
+            this.dispatch(CORR_EVENT, {
                 source: e.source,
                 logType: e.logType,
                 message: e.message.map(x => <L2correlation>{
@@ -333,7 +531,38 @@ export class Emitter extends CoreClass {
         if (this.l2enable) {
             let { plain } = this.l2engine.flush()
             if (this.notifier[EVENT_EVENT]) { plain.forEach(x => this.emitEvent(x)) }
-            commonLogger.info(this, "Flushed the L3/L2 Correlation engine DB", "CORRELATION")
+            this.logger.info(this, "Flushed the L3/L2 Correlation engine DB", "CORRELATION")
+        }
+    }
+
+    /**
+     * Flushes the correlation engine (so its buffered events reach the receivers), waits for the async
+     * receivers in progress and unregisters all of them
+     */
+    protected async quiesce(drain: boolean, deadline: number): Promise<boolean> {
+        let drained = await super.quiesce(drain, deadline)
+        this.l2CorrFlush()
+        if (drain) {
+            drained = await settleWithin(Array.from(this.handlers), deadline) && drained
         }
+        this.emitter.removeAllListeners()
+        this.subscriptions = []
+        this.newEmitter()
+        return drained
     }
+}
+
+function topicScope(topic: EmitterTopic, message: any): EmitterScope {
+    if (!message || typeof message != 'object') {
+        return {}
+    }
+    if (topic == 'control') {
+        return { queryId: message.queryId }
+    }
+    return (topic == 'error') ? {} : { logType: message.logType, queryId: message.source }
+}
+
+function inScope(scope: EmitterScope, messageScope: EmitterScope): boolean {
+    return (scope.logType === undefined || scope.logType == messageScope.logType) &&
+        (scope.queryId === undefined || scope.queryId == messageScope.queryId)
 }
\ No newline at end of file
@@ -13,7 +13,11 @@
 
 import { PancloudClass } from './common'
 
-type SdkErrName = "PanCloudError" | "ApplicationFrameworkError"
+type SdkErrName = "PanCloudError" | "ApplicationFrameworkError" | "AuthError" | "QuotaError" | "NotFoundError" |
+    "ServerError" | "TimeoutError" | "SchemaError"
+
+const sdkErrNames: SdkErrName[] = ["PanCloudError", "ApplicationFrameworkError", "AuthError", "QuotaError",
+    "NotFoundError", "ServerError", "TimeoutError", "SchemaError"]
 
 interface AppFerr {
     errorCode: string
@@ -21,7 +25,37 @@ interface AppFerr {
 }
 
 function isError(obj: any): obj is AppFerr {
-    return typeof obj.errorCode == 'string' && typeof obj.errorMessage == 'string'
+    return obj && typeof obj.errorCode == 'string' && typeof obj.errorMessage == 'string'
+}
+
+/**
+ * Context of the operation that triggered the error
+ */
+export interface ErrorContext {
+    /**
+     * HTTP status code of the response (if any)
+     */
+    status?: number
+    /**
+     * HTTP method of the request
+     */
+    method?: string
+    /**
+     * Path of the request (relative to the service base URL)
+     */
+    path?: string
+    /**
+     * Request identifier returned by the Application Framework (if any)
+     */
+    requestId?: string
+    /**
+     * Whether the operation might succeed if attempted again
+     */
+    retryable?: boolean
+    /**
+     * Original error (if any)
+     */
+    cause?: any
 }
 
 export abstract class SdkErr extends Error {
@@ -29,9 +63,24 @@ export abstract class SdkErr extends Error {
     protected errorCode: string
     protected errorMessage: string
     protected sourceClass: string
-
-    constructor(message: string) {
+    status?: number
+    method?: string
+    path?: string
+    requestId?: string
+    retryable: boolean
+    cause?: any
+
+    constructor(message: string, ctx?: ErrorContext) {
         super(message)
+        this.retryable = false
+        if (ctx) {
+            this.status = ctx.status
+            this.method = ctx.method
+            this.path = ctx.path
+            this.requestId = ctx.requestId
+            this.retryable = (ctx.retryable) ? true : false
+            this.cause = ctx.cause
+        }
     }
 
     getErrorCode(): string {
@@ -56,19 +105,18 @@ export function isSdkError(e: any): e is SdkErr {
         e.getErrorCode && typeof e.getErrorCode == "function" &&
         e.getErrorMessage && typeof e.getErrorMessage == "function" &&
         e.getSourceClass && typeof e.getSourceClass == "function" &&
-        e.name && typeof e.name == "string" &&
-        (e.name == <SdkErrName>"PanCloudError" || e.name == <SdkErrName>"ApplicationFrameworkError")
+        e.name && typeof e.name == "string" && sdkErrNames.includes(e.name)
 }
 
 export class ApplicationFrameworkError extends SdkErr {
 
-    constructor(source: PancloudClass, afError: any) {
+    constructor(source: PancloudClass, afError: any, ctx?: ErrorContext) {
         if (isError(afError)) {
-            super(afError.errorMessage)
+            super(afError.errorMessage, ctx)
             this.errorMessage = afError.errorMessage
             this.errorCode = afError.errorCode
         } else {
-            super("Unparseable Application Framework error message")
+            super("Unparseable Application Framework error message", ctx)
             this.errorMessage = JSON.stringify(afError)
             this.errorCode = ''
         }
@@ -77,12 +125,12 @@ export class ApplicationFrameworkError extends SdkErr {
     }
 }
 
-type ErrCodes = "PARSER" | "IDENTITY" | "CONFIG" | "UNKNOWN"
+type ErrCodes = "PARSER" | "IDENTITY" | "CONFIG" | "UNKNOWN" | "ABORTED" | "TIMEOUT" | "CIRCUIT_OPEN"
 
 export class PanCloudError extends SdkErr {
 
-    constructor(source: PancloudClass, code: ErrCodes, message: string) {
-        super(message)
+    constructor(source: PancloudClass, code: ErrCodes, message: string, ctx?: ErrorContext) {
+        super(message, ctx)
         this.errorCode = code
         this.errorMessage = message
         this.sourceClass = source.className
@@ -90,8 +138,90 @@ export class PanCloudError extends SdkErr {
     }
 
     static fromError(sorce: PancloudClass, e: Error): PanCloudError {
-        let newpce = new PanCloudError(sorce, "UNKNOWN", e.message)
+        let newpce = new PanCloudError(sorce, "UNKNOWN", e.message, { cause: e })
         newpce.stack = e.stack
         return newpce
     }
-}
\ No newline at end of file
+}
+
+/**
+ * The request was rejected because of the credentials (HTTP 401 / 403 or an IDP error)
+ */
+export class AuthError extends ApplicationFrameworkError {
+    constructor(source: PancloudClass, afError: any, ctx?: ErrorContext) {
+        super(source, afError, ctx)
+        this.setClassName("AuthError")
+    }
+}
+
+/**
+ * The request was rejected because of a quota or rate limit (HTTP 429)
+ */
+export class QuotaError extends ApplicationFrameworkError {
+    constructor(source: PancloudClass, afError: any, ctx?: ErrorContext) {
+        super(source, afError, { retryable: true, ...ctx })
+        this.setClassName("QuotaError")
+    }
+}
+
+/**
+ * The requested resource does not exist (HTTP 404)
+ */
+export class NotFoundError extends ApplicationFrameworkError {
+    constructor(source: PancloudClass, afError: any, ctx?: ErrorContext) {
+        super(source, afError, ctx)
+        this.setClassName("NotFoundError")
+    }
+}
+
+/**
+ * The Application Framework failed to process the request (HTTP 5XX)
+ */
+export class ServerError extends ApplicationFrameworkError {
+    constructor(source: PancloudClass, afError: any, ctx?: ErrorContext) {
+        super(source, afError, { retryable: ctx !== undefined && ctx.status != 501, ...ctx })
+        this.setClassName("ServerError")
+    }
+}
+
+/**
+ * The operation deadline was exceeded
+ */
+export class TimeoutError extends PanCloudError {
+    constructor(source: PancloudClass, message: string, ctx?: ErrorContext) {
+        super(source, "TIMEOUT", message, { retryable: true, ...ctx })
+        this.setClassName("TimeoutError")
+    }
+}
+
+/**
+ * The response received is not valid JSON or does not conform to the expected schema
+ */
+export class SchemaError extends PanCloudError {
+    constructor(source: PancloudClass, message: string, ctx?: ErrorContext) {
+        super(source, "PARSER", message, ctx)
+        this.setClassName("SchemaError")
+    }
+}
+
+/**
+ * Builds the error that corresponds to a non 2XX HTTP response
+ * @param source class performing the operation. Its className will be attached to the error
+ * @param afError the response body (Application Framework error object if possible)
+ * @param ctx context of the operation. The `status` property is used to choose the error class
+ */
+export function httpError(source: PancloudClass, afError: any, ctx: ErrorContext): ApplicationFrameworkError {
+    switch (ctx.status) {
+        case 401:
+        case 403:
+            return new AuthError(source, afError, ctx)
+        case 404:
+            return new NotFoundError(source, afError, ctx)
+        case 429:
+            return new QuotaError(source, afError, ctx)
+    }
+    if (ctx.status && ctx.status >= 500) {
+        return new ServerError(source, afError, ctx)
+    }
+    return new ApplicationFrameworkError(source, afError, ctx)
+}
@@ -0,0 +1,553 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Typed builder and offline validator for the Event Service filter WHERE predicates. The Event Service only
+ * accepts comparison (`<`, `<=`, `>`, `>=`, `=`) and boolean (`AND`, `OR`, `NOT`) operators
+ */
+
+import { LogType, PancloudClass, isKnownLogType } from './common'
+import { PanCloudError } from './error'
+
+const defaultSource: PancloudClass = { className: 'EsFilter' }
+
+const FW_COMMON_FIELDS = {
+    "action_flags": "",
+    "actionflags": "",
+    "cloud_hostname": "",
+    "config_ver": "",
+    "customer-id": "",
+    "device_name": "",
+    "dg_hier_level_1": "",
+    "dg_hier_level_2": "",
+    "dg_hier_level_3": "",
+    "dg_hier_level_4": "",
+    "exported": "",
+    "fwd": "",
+    "is_dup_log": "",
+    "is_fwaas": "",
+    "is_gpaas": "",
+    "log_feat_bit1": "",
+    "logset": "",
+    "receive_time": "",
+    "recsize": "",
+    "seqno": "",
+    "serial": "",
+    "subtype": "",
+    "time_generated": "",
+    "time_received": "",
+    "type": "",
+    "vsys": "",
+    "vsys_id": "",
+    "vsys_name": ""
+}
+
+const FW_SESSION_FIELDS = {
+    ...FW_COMMON_FIELDS,
+    "action": "",
+    "app": "",
+    "captive_portal": "",
+    "category": "",
+    "category-of-app": "",
+    "characteristic-of-app": "",
+    "container": "",
+    "container-of-app": "",
+    "decrypt_mirror": "",
+    "dport": "",
+    "dst": "",
+    "dstloc": "",
+    "dstuser": "",
+    "flag": "",
+    "flags": "",
+    "from": "",
+    "inbound_if": "",
+    "is-saas-of-app": "",
+    "mptcp_on": "",
+    "nat": "",
+    "natdport": "",
+    "natdst": "",
+    "natsport": "",
+    "natsrc": "",
+    "non-standard-dport": "",
+    "non_std_dport": "",
+    "outbound_if": "",
+    "parent_session_id": "",
+    "parent_start_time": "",
+    "pbf_c2s": "",
+    "pbf_s2c": "",
+    "proto": "",
+    "proxy": "",
+    "recon_excluded": "",
+    "repeatcnt": "",
+    "risk-of-app": "",
+    "rule": "",
+    "sanctioned-state-of-app": "",
+    "sessionid": "",
+    "sport": "",
+    "src": "",
+    "srcloc": "",
+    "srcuser": "",
+    "subcategory-of-app": "",
+    "sym_return": "",
+    "technology-of-app": "",
+    "to": "",
+    "transaction": "",
+    "tunnel": "",
+    "tunnel_inspected": "",
+    "tunneled-app": "",
+    "tunnelid_imsi": "",
+    "ui-dstloc": "",
+    "ui-srcloc": "",
+    "users": ""
+}
+
+const TRAFFIC_FIELDS = {
+    ...FW_SESSION_FIELDS,
+    "action_source": "",
+    "bytes": "",
+    "bytes_received": "",
+    "bytes_sent": "",
+    "elapsed": "",
+    "extended-traffic-log-mac": "",
+    "extended-traffic-log-mac-stc": "",
+    "packets": "",
+    "pkts_received": "",
+    "pkts_sent": "",
+    "session_end_reason": "",
+    "start": ""
+}
+
+const THREAT_FIELDS = {
+    ...FW_SESSION_FIELDS,
+    "category-of-threatid": "",
+    "cloud": "",
+    "contenttype": "",
+    "contentver": "",
+    "direction": "",
+    "filedigest": "",
+    "filetype": "",
+    "http_method": "",
+    "is_phishing": "",
+    "misc": "",
+    "name-of-threatid": "",
+    "packet_capture": "",
+    "pcap": "",
+    "pcap_id": "",
+    "ppid": "",
+    "recipient": "",
+    "referer": "",
+    "reportid": "",
+    "sender": "",
+    "severity": "",
+    "sig_flags": "",
+    "subject": "",
+    "thr_category": "",
+    "threatid": "",
+    "ui-contentver": "",
+    "url_denied": "",
+    "url_idx": "",
+    "user_agent": "",
+    "xff": ""
+}
+
+interface FieldCatalogs {
+    "panw.traffic": typeof TRAFFIC_FIELDS
+    "panw.threat": typeof THREAT_FIELDS
+}
+
+const fieldCatalogs: { [logType: string]: { [field: string]: string } } = {
+    "panw.traffic": { ...TRAFFIC_FIELDS },
+    "panw.threat": { ...THREAT_FIELDS }
+}
+
+/**
+ * Field names accepted for the log type. Fields in the built-in catalog are suggested but any string is accepted as
+ * fields can be added at runtime with `registerLogFields()` (unknown fields are rejected when the predicate is built)
+ */
+export type EsFieldName<T extends LogType> = T extends keyof FieldCatalogs ? Extract<keyof FieldCatalogs[T], string> | (string & {}) : string
+
+/**
+ * Adds fields to the catalog of a log type (creating it if needed). Predicates on log types with a catalog are
+ * rejected in strict mode if they reference unknown fields
+ * @param logType the log type
+ * @param fields field names to be added
+ */
+export function registerLogFields(logType: LogType, fields: string[]): void {
+    let catalog = fieldCatalogs[logType] || (fieldCatalogs[logType] = {})
+    fields.forEach(f => catalog[f] = "")
+}
+
+/**
+ * @returns `true` if the log type has no field catalog or the field is in it
+ */
+export function isKnownLogField(logType: LogType, field: string): boolean {
+    let catalog = fieldCatalogs[logType]
+    return !catalog || catalog.hasOwnProperty(field)
+}
+
+export type EsLiteral = string | number | boolean
+
+export type EsComparisonOperator = '<' | '<=' | '>' | '>=' | '='
+
+/**
+ * Parsed (or built) WHERE predicate
+ */
+export type EsPredicate =
+    { op: EsComparisonOperator, field: string, value: EsLiteral } |
+    { op: 'AND' | 'OR', operands: EsPredicate[] } |
+    { op: 'NOT', operand: EsPredicate }
+
+/**
+ * Typed builder of WHERE predicates for a log type
+ */
+export class EsPredicateBuilder<T extends LogType> {
+    readonly logType: T
+    static className = "EsPredicateBuilder"
+
+    constructor(logType: T) {
+        if (!isKnownLogType(logType)) {
+            throw new PanCloudError(EsPredicateBuilder, 'CONFIG', `Unknown log type ${logType}`)
+        }
+        this.logType = logType
+    }
+
+    private compare(op: EsComparisonOperator, field: EsFieldName<T>, value: EsLiteral): EsPredicate {
+        if (!isKnownLogField(this.logType, field)) {
+            throw new PanCloudError(EsPredicateBuilder, 'CONFIG', `Unknown field ${field} for log type ${this.logType}`)
+        }
+        renderLiteral(value, EsPredicateBuilder)
+        return { op: op, field: field, value: value }
+    }
+
+    eq(field: EsFieldName<T>, value: EsLiteral): EsPredicate {
+        return this.compare('=', field, value)
+    }
+
+    lt(field: EsFieldName<T>, value: EsLiteral): EsPredicate {
+        return this.compare('<', field, value)
+    }
+
+    le(field: EsFieldName<T>, value: EsLiteral): EsPredicate {
+        return this.compare('<=', field, value)
+    }
+
+    gt(field: EsFieldName<T>, value: EsLiteral): EsPredicate {
+        return this.compare('>', field, value)
+    }
+
+    ge(field: EsFieldName<T>, value: EsLiteral): EsPredicate {
+        return this.compare('>=', field, value)
+    }
+
+    and(...operands: EsPredicate[]): EsPredicate {
+        return this.combine('AND', operands)
+    }
+
+    or(...operands: EsPredicate[]): EsPredicate {
+        return this.combine('OR', operands)
+    }
+
+    not(operand: EsPredicate): EsPredicate {
+        return { op: 'NOT', operand: operand }
+    }
+
+    private combine(op: 'AND' | 'OR', operands: EsPredicate[]): EsPredicate {
+        if (!operands.length) {
+            throw new PanCloudError(EsPredicateBuilder, 'CONFIG', `${op} requires at least one operand`)
+        }
+        return (operands.length == 1) ? operands[0] : { op: op, operands: operands }
+    }
+}
+
+/**
+ * @param logType the log type the predicate applies to
+ * @returns a typed WHERE predicate builder for the log type
+ */
+export function esPredicate<T extends LogType>(logType: T): EsPredicateBuilder<T> {
+    return new EsPredicateBuilder(logType)
+}
+
+const BARE_FIELD = /^[A-Za-z_][A-Za-z0-9_-]*$/
+const KEYWORDS = ['AND', 'OR', 'NOT', 'TRUE', 'FALSE']
+const UNSUPPORTED_OPERATORS = ['!=', '<>', '!', '+', '-', '*', '/', '%', '|', '&', ',']
+const UNSUPPORTED_KEYWORDS = ['LIKE', 'IN', 'IS', 'BETWEEN', 'NULL', 'EXISTS', 'SELECT', 'WHERE', 'FROM']
+
+function renderField(field: string): string {
+    let upper = field.toUpperCase()
+    return (BARE_FIELD.test(field) && KEYWORDS.indexOf(upper) == -1 && UNSUPPORTED_KEYWORDS.indexOf(upper) == -1) ? field :
+        `\`${field.replace(/`/g, '``')}\``
+}
+
+function renderLiteral(value: EsLiteral, source: PancloudClass): string {
+    switch (typeof value) {
+        case 'string':
+            return `'${value.replace(/'/g, "''")}'`
+        case 'number':
+            if (!isFinite(value)) {
+                throw new PanCloudError(source, 'CONFIG', `Invalid numeric literal ${value}`)
+            }
+            return String(value)
+        case 'boolean':
+            return (value) ? 'true' : 'false'
+    }
+    throw new PanCloudError(source, 'CONFIG', `Unsupported literal ${JSON.stringify(value)}`)
+}
+
+/**
+ * @returns the predicate as a WHERE clause body (without the `WHERE` keyword)
+ */
+export function renderPredicate(predicate: EsPredicate): string {
+    switch (predicate.op) {
+        case 'AND':
+        case 'OR':
+            return predicate.operands.map(o => (o.op == 'AND' || o.op == 'OR') ? `(${renderPredicate(o)})` : renderPredicate(o))
+                .join(` ${predicate.op} `)
+        case 'NOT':
+            return `NOT (${renderPredicate(predicate.operand)})`
+        default:
+            return `${renderField(predicate.field)} ${predicate.op} ${renderLiteral(predicate.value, defaultSource)}`
+    }
+}
+
+type TokenType = 'field' | 'string' | 'number' | 'keyword' | 'operator' | '(' | ')' | 'end'
+
+interface Token {
+    type: TokenType
+    text: string
+    pos: number
+}
+
+
+function tokenize(where: string, source: PancloudClass): Token[] {
+    let tokens: Token[] = []
+    let i = 0
+    let fail = (message: string, pos: number): never => {
+        throw new PanCloudError(source, 'CONFIG', `Invalid WHERE predicate at position ${pos}: ${message}`)
+    }
+    while (i < where.length) {
+        let c = where[i]
+        if (/\s/.test(c)) {
+            i++
+        } else if (c == '(' || c == ')') {
+            tokens.push({ type: c, text: c, pos: i++ })
+        } else if (c == "'" || c == '`') {
+            let start = i++
+            let text = ''
+            while (true) {
+                if (i >= where.length) {
+                    fail((c == "'") ? 'unterminated string literal' : 'unterminated quoted field', start)
+                }
+                if (where[i] == c) {
+                    if (where[i + 1] == c) {
+                        text += c
+                        i += 2
+                        continue
+                    }
+                    i++
+                    break
+                }
+                text += where[i++]
+            }
+            tokens.push({ type: (c == "'") ? 'string' : 'field', text: text, pos: start })
+        } else if (/[0-9.]/.test(c) || (c == '-' && /[0-9.]/.test(where.charAt(i + 1)))) {
+            let m = /^-?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(where.slice(i))
+            if (!m) {
+                return fail('invalid number', i)
+            }
+            tokens.push({ type: 'number', text: m[0], pos: i })
+            i += m[0].length
+        } else if (/[A-Za-z_]/.test(c)) {
+            let m = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(where.slice(i)) as RegExpExecArray
+            let upper = m[0].toUpperCase()
+            if (KEYWORDS.indexOf(upper) != -1) {
+                tokens.push({ type: 'keyword', text: upper, pos: i })
+            } else if (UNSUPPORTED_KEYWORDS.indexOf(upper) != -1) {
+                fail(`${upper} is not supported by the Event Service (quote field names with backticks)`, i)
+            } else {
+                tokens.push({ type: 'field', text: m[0], pos: i })
+            }
+            i += m[0].length
+        } else {
+            let op = ['<=', '>=', '!=', '<>'].find(o => where.startsWith(o, i)) || c
+            if (['<', '<=', '>', '>=', '='].indexOf(op) != -1) {
+                tokens.push({ type: 'operator', text: op, pos: i })
+                i += op.length
+            } else {
+                fail((UNSUPPORTED_OPERATORS.indexOf(op) != -1) ? `operator ${op} is not supported by the Event Service` :
+                    `unexpected character ${op}`, i)
+            }
+        }
+    }
+    tokens.push({ type: 'end', text: '', pos: where.length })
+    return tokens
+}
+
+/**
+ * Parses (and validates) a WHERE predicate
+ * @param where the predicate (without the `WHERE` keyword)
+ * @param logType if provided, field names are checked against its catalog
+ * @param strict reject fields not present in the log type catalog. Defaults to **false**
+ * @param source object to be used as source of the exception
+ * @throws `PanCloudError` (`CONFIG`) describing the first error found
+ */
+export function parsePredicate(where: string, logType?: LogType, strict = false, source: PancloudClass = defaultSource): EsPredicate {
+    let tokens = tokenize(where, source)
+    let current = 0
+    let fail = (message: string): never => {
+        let t = tokens[current]
+        throw new PanCloudError(source, 'CONFIG', `Invalid WHERE predicate at position ${t.pos}: ${message}` +
+            ((t.type == 'end') ? ' (end of input found)' : ` (found ${t.text})`))
+    }
+    let isKeyword = (k: string) => tokens[current].type == 'keyword' && tokens[current].text == k
+    let parseOr = (): EsPredicate => {
+        let operands = [parseAnd()]
+        while (isKeyword('OR')) {
+            current++
+            operands.push(parseAnd())
+        }
+        return (operands.length == 1) ? operands[0] : { op: 'OR', operands: operands }
+    }
+    let parseAnd = (): EsPredicate => {
+        let operands = [parseNot()]
+        while (isKeyword('AND')) {
+            current++
+            operands.push(parseNot())
+        }
+        return (operands.length == 1) ? operands[0] : { op: 'AND', operands: operands }
+    }
+    let parseNot = (): EsPredicate => {
+        if (isKeyword('NOT')) {
+            current++
+            return { op: 'NOT', operand: parseNot() }
+        }
+        return parsePrimary()
+    }
+    let parsePrimary = (): EsPredicate => {
+        let t = tokens[current]
+        if (t.type == '(') {
+            current++
+            let p = parseOr()
+            if (tokens[current].type != ')') {
+                fail('expected )')
+            }
+            current++
+            return p
+        }
+        if (t.type != 'field') {
+            return fail('expected a field name')
+        }
+        if (logType && strict && !isKnownLogField(logType, t.text)) {
+            throw new PanCloudError(source, 'CONFIG', `Invalid WHERE predicate at position ${t.pos}: unknown field ${t.text} for log type ${logType}`)
+        }
+        current++
+        let op = tokens[current]
+        if (op.type != 'operator') {
+            return fail('expected a comparison operator (<, <=, >, >=, =)')
+        }
+        current++
+        let v = tokens[current]
+        let value: EsLiteral
+        if (v.type == 'string') {
+            value = v.text
+        } else if (v.type == 'number') {
+            value = Number(v.text)
+        } else if (v.type == 'keyword' && (v.text == 'TRUE' || v.text == 'FALSE')) {
+            value = v.text == 'TRUE'
+        } else {
+            return fail('expected a literal value')
+        }
+        current++
+        return { op: op.text as EsComparisonOperator, field: t.text, value: value }
+    }
+    let predicate = parseOr()
+    if (tokens[current].type != 'end') {
+        fail('unexpected token')
+    }
+    return predicate
+}
+
+const SELECT_STATEMENT = /^\s*select\s+\*\s+from\s+`([^`]+)`(?:\s+where\s+([\s\S]*?))?\s*$/i
+
+/**
+ * Validates all filter statements (`select * from \`<log type>\` [where <predicate>]`) of an Event Service filter
+ * @param filter the filter
+ * @param strict reject fields not present in the log type catalog. Defaults to **false**
+ * @param source object to be used as source of the exception
+ * @throws `PanCloudError` (`CONFIG`) describing the first error found
+ */
+export function validateEsFilter(filter: { filters: { [logType: string]: { filter: string } }[] }, strict = false,
+    source: PancloudClass = defaultSource): void {
+    filter.filters.forEach(f => Object.keys(f).forEach(logType => {
+        if (!isKnownLogType(logType)) {
+            throw new PanCloudError(source, 'CONFIG', `Unknown log type ${logType} in filter`)
+        }
+        let m = SELECT_STATEMENT.exec(f[logType].filter)
+        if (!m) {
+            throw new PanCloudError(source, 'CONFIG',
+                `Invalid ${logType} filter "${f[logType].filter}". Expected "select * from \`${logType}\` [where <predicate>]"`)
+        }
+        if (m[1] != logType) {
+            throw new PanCloudError(source, 'CONFIG', `Filter for ${logType} selects from ${m[1]}`)
+        }
+        if (m[2] !== undefined) {
+            try {
+                parsePredicate(m[2], logType, strict, source)
+            } catch (e) {
+                throw new PanCloudError(source, 'CONFIG', `${logType} filter: ${e.message}`, { cause: e })
+            }
+        }
+    }))
+}
+
+/**
+ * Rewrites a predicate into a canonical form: nested terms of the same boolean operator are flattened,
+ * operands of AND / OR are sorted and repeated ones dropped, and double negations are removed. Two
+ * predicates with the same canonical rendering select the same events
+ */
+export function canonicalPredicate(predicate: EsPredicate): EsPredicate {
+    switch (predicate.op) {
+        case 'AND':
+        case 'OR':
+            let op = predicate.op
+            let operands: { [rendered: string]: EsPredicate } = {}
+            predicate.operands.map(canonicalPredicate).forEach(o => {
+                ((o.op == op) ? (o as { operands: EsPredicate[] }).operands : [o]).forEach(f => operands[renderPredicate(f)] = f)
+            })
+            let sorted = Object.keys(operands).sort().map(k => operands[k])
+            return (sorted.length == 1) ? sorted[0] : { op: op, operands: sorted }
+        case 'NOT':
+            let operand = canonicalPredicate(predicate.operand)
+            return (operand.op == 'NOT') ? operand.operand : { op: 'NOT', operand: operand }
+        default:
+            return predicate
+    }
+}
+
+/**
+ * Normalizes an Event Service filter statement so that semantically equivalent statements compare equal.
+ * Statements that can't be parsed are returned with their whitespace collapsed
+ * @param statement a `select * from \`<log type>\` [where <predicate>]` statement
+ */
+export function normalizeFilterStatement(statement: string): string {
+    let m = SELECT_STATEMENT.exec(statement)
+    if (m) {
+        try {
+            let normalized = `select * from \`${m[1]}\``
+            return (m[2] === undefined) ? normalized :
+                `${normalized} where ${renderPredicate(canonicalPredicate(parsePredicate(m[2], undefined, false)))}`
+        } catch {
+            // fall through to the textual comparison
+        }
+    }
+    return statement.trim().replace(/\s+/g, ' ')
+}
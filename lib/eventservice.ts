@@ -17,10 +17,17 @@
 
 import { URL } from 'url'
 import { ApiPath, LogType, isKnownLogType, commonLogger, EntryPoint } from './common'
-import { Emitter, EmitterOptions, EmitterInterface, EmitterStats, L2correlation } from './emitter'
-import { PanCloudError } from './error'
+import { Emitter, EmitterOptions, EmitterInterface, EmitterListener, EmitterStats, L2correlation } from './emitter'
+import { PanCloudError, SchemaError, isSdkError } from './error'
 import { setTimeout, clearTimeout } from 'timers'
+import { EventEmitter } from 'events'
 import { Credentials } from './credentials';
+import { CallOptions, AbortSignal, abortableDelay, isAbortError } from './abort'
+import { isCircuitOpenError } from './breaker'
+import { withSpan } from './tracing'
+import { EsPredicate, renderPredicate, validateEsFilter, normalizeFilterStatement } from './esfilter'
+import { AutoPollOptions, AutoPollScheduler, PollOutcome } from './autopoll'
+import { settleWithin } from './lifecycle'
 
 /**
  * Default amount of milliseconds to wait between ES AutoPoll events
@@ -37,7 +44,7 @@ let invalidTables: LogType[] = ["tms.analytics", "tms.config", "tms.system", "tm
 /**
  * Event Service emitted message interface
  */
-interface EsEvent {
+export interface EsEvent {
     logType: LogType,
     event: any[]
 }
@@ -104,6 +111,51 @@ export interface EsFilter {
     flush?: boolean
 }
 
+const DEFAULT_FILTER_TIMEOUT = 60000
+const DEFAULT_FILTER_BATCH_SIZE = 1
+
+interface NormalizedFilter {
+    filter: string,
+    timeout: number,
+    batchSize: number
+}
+
+function normalizeFilters(filter: EsFilter, source: EventService): { [table: string]: NormalizedFilter } {
+    let tables: { [table: string]: NormalizedFilter } = {}
+    filter.filters.forEach(f => Object.keys(f).forEach(table => {
+        if (table in tables) {
+            throw new PanCloudError(source, 'CONFIG', `Duplicated filter for ${table}`)
+        }
+        tables[table] = {
+            filter: normalizeFilterStatement(f[table].filter),
+            timeout: (f[table].timeout !== undefined) ? f[table].timeout as number : DEFAULT_FILTER_TIMEOUT,
+            batchSize: (f[table].batchSize !== undefined) ? f[table].batchSize as number : DEFAULT_FILTER_BATCH_SIZE
+        }
+    }))
+    return tables
+}
+
+function diffFilters(current: EsFilter, desired: EsFilter, source: EventService): EsFilterDiff {
+    let cur = normalizeFilters(current, source)
+    let des = normalizeFilters(desired, source)
+    let diff: EsFilterDiff = {
+        changed: false,
+        added: Object.keys(des).filter(t => !(t in cur)),
+        removed: Object.keys(cur).filter(t => !(t in des)),
+        modified: [],
+        flushed: false
+    }
+    Object.keys(des).filter(t => t in cur).forEach(t => {
+        (['filter', 'timeout', 'batchSize'] as ('filter' | 'timeout' | 'batchSize')[]).forEach(a => {
+            if (cur[t][a] !== des[t][a]) {
+                diff.modified.push({ table: t, attribute: a, current: cur[t][a], desired: des[t][a] })
+            }
+        })
+    })
+    diff.changed = diff.added.length + diff.removed.length + diff.modified.length > 0
+    return diff
+}
+
 function isEsFilter(obj: any): obj is EsFilter {
     if (obj && typeof obj == "object") {
         if ("filters" in obj && typeof obj.filters == "object" && obj.filters instanceof Array) {
@@ -154,15 +206,15 @@ interface EsFilterOptions {
         /**
          * A receiver for the **EVENT_EVENT** topic
          */
-        event?: ((e: EmitterInterface<any[]>) => void),
+        event?: EmitterListener<any[]>,
         /**
          * A receiver for the **PCAP_EVENT** topic
          */
-        pcap?: ((p: EmitterInterface<Buffer>) => void),
+        pcap?: EmitterListener<Buffer>,
         /**
          * A receiver for the **CORR_EVENT** topic
          */
-        corr?: ((e: EmitterInterface<L2correlation[]>) => void)
+        corr?: EmitterListener<L2correlation[]>
     },
     /**
      * Parameters to be used by autopoll in case any callBack is provided
@@ -198,9 +250,10 @@ export interface EsFilterBuilderCfg {
          */
         table: LogType,
         /**
-         * If provided, it will become the predicate of the WHERE clause
+         * If provided, it will become the predicate of the WHERE clause (without the `WHERE` keyword). Consider
+         * using a typed predicate (see `esPredicate()`) instead of a string
          */
-        where?: string,
+        where?: string | EsPredicate,
         /**
          * Identifies the maximum amount of time in milliseconds a poll
          * request will wait for events. Note that if the limit specified by batchSize is
@@ -233,24 +286,181 @@ export interface EsFilterBuilderCfg {
     flush?: boolean
 }
 
+/**
+ * Options for the **EventService.ensureFilters()** method
+ */
+export interface EsEnsureOptions {
+    /**
+     * Must be **true** to update the channel filter with a desired configuration that has the `flush` attribute
+     * set. Otherwise the update is rejected instead of discarding the events in the channel (dry runs and channels
+     * already matching the desired configuration are not affected). Defaults to **false**
+     */
+    allowFlush?: boolean
+    /**
+     * Only compute and report the differences. The channel filter is not updated. Defaults to **false**
+     */
+    dryRun?: boolean
+}
+
+/**
+ * A filter attribute that differs between the channel and the desired configuration
+ */
+export interface EsFilterChange {
+    /**
+     * The log type of the filter
+     */
+    table: string
+    /**
+     * The attribute that differs. **filter** is the (normalized) select statement
+     */
+    attribute: 'filter' | 'timeout' | 'batchSize'
+    /**
+     * Value in the channel
+     */
+    current: string | number
+    /**
+     * Value in the desired configuration
+     */
+    desired: string | number
+}
+
+/**
+ * Report of the **EventService.ensureFilters()** method
+ */
+export interface EsFilterDiff {
+    /**
+     * **true** if the channel filter differs from the desired one (and, unless `dryRun`, it has been updated)
+     */
+    changed: boolean
+    /**
+     * Log types present only in the desired configuration
+     */
+    added: string[]
+    /**
+     * Log types present only in the channel filter
+     */
+    removed: string[]
+    /**
+     * Attributes that differ for log types present in both
+     */
+    modified: EsFilterChange[]
+    /**
+     * **true** if the channel has been flushed as part of the update
+     */
+    flushed: boolean
+}
+
+/**
+ * Options for the EventService `events()` async iterator
+ */
+export interface EsIteratorOptions {
+    /**
+     * Yield the whole `EsEvent[]` batch returned by each poll operation instead of its individual items.
+     * Defaults to **false**
+     */
+    batch?: boolean
+}
+
+/**
+ * Signal used to stop an async iterator. It is aborted by `pause()` or when its parent signal is aborted
+ */
+class IteratorSignal implements AbortSignal {
+    aborted = false
+    private emitter = new EventEmitter()
+    private parent?: AbortSignal
+    private onParentAbort = () => this.abort()
+
+    constructor(parent?: AbortSignal) {
+        if (parent) {
+            this.parent = parent
+            if (parent.aborted) {
+                this.aborted = true
+            } else {
+                parent.addEventListener('abort', this.onParentAbort)
+            }
+        }
+    }
+
+    addEventListener(type: 'abort', listener: () => void): void {
+        this.emitter.on(type, listener)
+    }
+
+    removeEventListener(type: 'abort', listener: () => void): void {
+        this.emitter.removeListener(type, listener)
+    }
+
+    abort(): void {
+        if (!this.aborted) {
+            this.aborted = true
+            this.emitter.emit('abort')
+        }
+    }
+
+    release(): void {
+        if (this.parent) {
+            this.parent.removeEventListener('abort', this.onParentAbort)
+            this.parent = undefined
+        }
+    }
+}
+
+/**
+ * Delivery guarantees of the AutoPoll feature
+ */
+export interface EsDeliveryOptions {
+    /**
+     * In **at-most-once** mode (the default) events are emitted without waiting for the receivers and the
+     * batch is acknowledged based on the `ack` poll option. In **at-least-once** mode the receivers (that can be
+     * async) are awaited: the batch is acknowledged only when all of them succeed and rejected (`NACK`) otherwise,
+     * so it is delivered again. The `ack` poll option is ignored in this mode
+     */
+    mode: 'at-most-once' | 'at-least-once'
+    /**
+     * Consecutive failed deliveries of a batch before it is considered poison, sent to `deadLetter` and
+     * acknowledged. Defaults to **5**
+     */
+    maxRedeliveries?: number
+    /**
+     * Receives the poison batches. If not provided, they are logged and discarded. If it fails, the batch
+     * is rejected (`NACK`) and it will be delivered again
+     */
+    deadLetter?: (batch: EsEvent[], error: Error, attempts: number) => void | Promise<void>
+}
+
 /**
  * Options for the EventService class factory
  */
-export interface EsOptions extends EmitterOptions {
+export interface EsOptions extends EmitterOptions, AutoPollOptions {
     /**
      * The *channel-id* to be used. Defaults to **'EventFilter'**
      */
     channelId?: string
     /**
-     * Amount of milliseconds to wait between consecutive autopoll() attempts. Defaults to **200ms**
+     * Amount of milliseconds to wait between consecutive autopoll() attempts while data is being received. It grows
+     * up to `autoPollMaxSleep` after consecutive empty polls. Defaults to **200ms**
      */
     autoPollSleep?: number
+    /**
+     * Delivery guarantees of the AutoPoll feature. Defaults to **at-most-once**
+     */
+    delivery?: EsDeliveryOptions
+    /**
+     * Validation applied to the filters before they are sent to the Event Service: **syntax** (the default) only
+     * checks the syntax, **strict** checks the field names as well (for log types with a field catalog, see
+     * `registerLogFields()`) and **none** disables the validation
+     */
+    filterValidation?: 'strict' | 'syntax' | 'none'
+    /**
+     * If **false**, setting a filter with receivers does not start the AutoPoll feature (i.e. it is started by an
+     * `EventServiceManager`). Defaults to **true**
+     */
+    autoPoll?: boolean
 }
 
 /** 
  * Runtime statistics provided by the EventService class
  */
-interface EsStats extends EmitterStats {
+export interface EsStats extends EmitterStats {
     /**
      * Number of records retrieved from the Application Framework
      */
@@ -279,13 +489,26 @@ interface EsStats extends EmitterStats {
      * Number of **POST** calls to the **\/flush** entry point
      */
     flushes: number
+    /**
+     * Number of batches rejected (at-least-once delivery mode) because a receiver failed
+     */
+    redeliveries: number
+    /**
+     * Number of poison batches sent to the dead-letter receiver (or discarded)
+     */
+    deadLettered: number
+    /**
+     * Milliseconds the AutoPoll feature waited (or is waiting) before its last poll
+     */
+    autoPollDelay: number
 }
 
 /**
  * High-level class that implements an Application Framework Event Service client. It supports both sync
  * and async features. Objects of this class must be obtained using the factory static method
  */
-export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>> {
+export class EventService extends Emitter implements AsyncIterable<EsEvent> {
+    private channelId: string
     private filterPath: string
     private pollPath: string
     private ackPath: string
@@ -293,7 +516,15 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
     private flushPath: string
     private popts: EsPollOptions
     private apSleep: number
+    private scheduler: AutoPollScheduler
+    private batchSizes: { [logType: string]: number }
     private tout: NodeJS.Timer | undefined
+    private apCycle?: Promise<void>
+    private iterators: IteratorSignal[]
+    private delivery: EsDeliveryOptions
+    private failedDeliveries: number
+    private autoPollEnabled: boolean
+    private filterValidation: 'strict' | 'syntax' | 'none'
     private polling: boolean
     private eevent: EmitterInterface<any[]>
     protected stats: EsStats
@@ -307,9 +538,18 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
         let channelId = 'EventFilter'
         if (ops && ops.channelId) { channelId = ops.channelId }
         this.setChannel(channelId)
+        this.addLogContext({ channel: channelId })
+        this.addTraceAttributes({ 'pancloud.channel_id': channelId })
         this.popts = DEFAULT_PO
         this.apSleep = (ops && ops.autoPollSleep) ? ops.autoPollSleep : MSLEEP
+        this.scheduler = new AutoPollScheduler(this.apSleep, ops)
+        this.batchSizes = {}
         this.polling = false
+        this.iterators = []
+        this.delivery = (ops && ops.delivery) ? ops.delivery : { mode: 'at-most-once' }
+        this.failedDeliveries = 0
+        this.autoPollEnabled = (ops && ops.autoPoll !== undefined) ? ops.autoPoll : true
+        this.filterValidation = (ops && ops.filterValidation) ? ops.filterValidation : 'syntax'
         this.eevent = { source: "EventService" }
         this.stats = {
             acks: 0,
@@ -319,11 +559,15 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
             flushes: 0,
             polls: 0,
             records: 0,
+            redeliveries: 0,
+            deadLettered: 0,
+            autoPollDelay: 0,
             ...this.stats
         }
     }
 
     private setChannel(channelId: string): void {
+        this.channelId = channelId
         this.filterPath = `/${channelId}/filters`
         this.pollPath = `/${channelId}/poll`
         this.ackPath = `/${channelId}/ack`
@@ -343,17 +587,18 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
     }
 
     /**
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns the current Event Service filter configuration
      */
-    async getFilters(): Promise<EsFilter> {
+    async getFilters(cops?: CallOptions): Promise<EsFilter> {
         this.stats.filtergets++
-        commonLogger.info(this, '*filters* get request')
-        let rJson = await this.fetchGetWrap(this.filterPath);
+        this.logger.info(this, '*filters* get request')
+        let rJson = await this.fetchGetWrap(this.filterPath, undefined, cops);
         this.lastResponse = rJson
         if (isEsFilter(rJson)) {
             return rJson
         }
-        throw new PanCloudError(this, 'PARSER', `response is not a valid ES Filter: ${JSON.stringify(rJson)}`)
+        throw new SchemaError(this, `response is not a valid ES Filter: ${JSON.stringify(rJson)}`)
     }
 
     /**
@@ -361,30 +606,84 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
      * the **filterBuilder(EsFilterBuilderCfg)** method instead to assure a valid filter syntax
      * @param fcfg The new service configuration. If the configuration includes a valid callBack handler (currently
      * only {@link esFilterCfg.filterOptions.eventCallBack} is supported) then the class AutoPoll feature is turned on
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns a promise to the current Event Service to ease promise chaining
      */
-    async setFilters(fcfg: EsFilterCfg): Promise<EventService> {
-        commonLogger.info(this, `*filters* put request. Filter: ${JSON.stringify(fcfg)}`)
+    async setFilters(fcfg: EsFilterCfg, cops?: CallOptions): Promise<EventService> {
+        this.logger.info(this, `*filters* put request. Filter: ${JSON.stringify(fcfg)}`)
+        if (this.filterValidation != 'none') {
+            validateEsFilter(fcfg.filter, this.filterValidation == 'strict', this)
+        }
         this.stats.filtersets++
+        await this.voidXOperation(this.filterPath, JSON.stringify(fcfg.filter), 'PUT', cops)
+        this.applyFilterOptions(fcfg)
+        return this
+    }
+
+    private applyFilterOptions(fcfg: EsFilterCfg): void {
         this.popts = (fcfg.filterOptions && fcfg.filterOptions.poolOptions) ? fcfg.filterOptions.poolOptions : DEFAULT_PO
-        await this.voidXOperation(this.filterPath, JSON.stringify(fcfg.filter), 'PUT')
+        this.batchSizes = {}
+        fcfg.filter.filters.forEach(f => Object.keys(f).forEach(t => {
+            this.batchSizes[t] = (f[t].batchSize !== undefined) ? f[t].batchSize as number : DEFAULT_FILTER_BATCH_SIZE
+        }))
         if (fcfg.filterOptions && fcfg.filterOptions.callBack) {
             this.newEmitter(fcfg.filterOptions.callBack.event, fcfg.filterOptions.callBack.pcap, fcfg.filterOptions.callBack.corr)
-            EventService.autoPoll(this)
+            if (this.autoPollEnabled) {
+                this.resume()
+            }
         } else if (this.tout) {
             clearTimeout(this.tout)
             this.tout = undefined
         }
-        return this
     }
 
     /**
      * Convenience function to set a valid {@link esFilterCfg} configuration in the Event Service using a
      * description object
      * @param fbcfg The filter description object
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns a promise to the current Event Service to ease promise chaining
      */
-    public filterBuilder(fbcfg: EsFilterBuilderCfg): Promise<EventService> {
+    public filterBuilder(fbcfg: EsFilterBuilderCfg, cops?: CallOptions): Promise<EventService> {
+        return this.setFilters(this.buildFilterCfg(fbcfg), cops)
+    }
+
+    /**
+     * Declarative version of **filterBuilder()**. The current channel filter is compared (semantically: predicates
+     * are normalized and missing `timeout` / `batchSize` values are replaced by their defaults) with the desired
+     * one and it is only updated if they differ. Receivers in `filterOptions` are always registered
+     * @param fbcfg The desired filter description object
+     * @param ops reconciliation options
+     * @param cops optional cancellation settings (abort signal and/or deadline)
+     * @returns a promise to the report of the differences found
+     * @throws `PanCloudError` (`CONFIG`) if the channel filter must be updated, the desired configuration requests
+     * a flush and it is not allowed
+     */
+    public async ensureFilters(fbcfg: EsFilterBuilderCfg, ops?: EsEnsureOptions, cops?: CallOptions): Promise<EsFilterDiff> {
+        let allowFlush = (ops && ops.allowFlush !== undefined) ? ops.allowFlush : false
+        let dryRun = (ops && ops.dryRun !== undefined) ? ops.dryRun : false
+        let fcfg = this.buildFilterCfg(fbcfg)
+        if (this.filterValidation != 'none') {
+            validateEsFilter(fcfg.filter, this.filterValidation == 'strict', this)
+        }
+        let diff = diffFilters(await this.getFilters(cops), fcfg.filter, this)
+        this.logger.info(this, `*filters* reconciliation. Changes: ${JSON.stringify(diff)}`)
+        if (dryRun) {
+            return diff
+        }
+        if (diff.changed) {
+            if (fcfg.filter.flush && !allowFlush) {
+                throw new PanCloudError(this, 'CONFIG', 'Desired filter requests a channel flush but "allowFlush" is not set')
+            }
+            await this.setFilters(fcfg, cops)
+            diff.flushed = !!fcfg.filter.flush
+        } else {
+            this.applyFilterOptions(fcfg)
+        }
+        return diff
+    }
+
+    private buildFilterCfg(fbcfg: EsFilterBuilderCfg): EsFilterCfg {
         if (fbcfg.filter.some(f => invalidTables.includes(f.table))) {
             throw new PanCloudError(this, 'CONFIG', 'PanCloudError() only "tms.traps" is accepted in the EventService')
         }
@@ -400,7 +699,7 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
                     } = {}
                     m[e.table] = { filter: `select * from \`${e.table}\`` }
                     if (e.where) {
-                        m[e.table].filter += ` where ${e.where}`
+                        m[e.table].filter += ` where ${(typeof e.where == 'string') ? e.where : renderPredicate(e.where)}`
                     }
                     m[e.table].timeout = e.timeout
                     m[e.table].batchSize = e.batchSize
@@ -412,71 +711,195 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
         if (fbcfg.flush) {
             fcfg.filter.flush = true
         }
-        return this.setFilters(fcfg)
+        return fcfg
     }
 
     /**
      * Sets an empty filter in the Event Service
      * @param flush Optinal `flush` attribute (defaults to `false`)
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns a promise to the current Event Service to ease promise chaining
      */
-    public clearFilter(flush = false): Promise<EventService> {
+    public clearFilter(flush = false, cops?: CallOptions): Promise<EventService> {
         let fcfg: EsFilterCfg = { filter: { filters: [] }, filterOptions: {} }
         if (flush) {
             fcfg.filter.flush = true
         }
         this.pause()
-        return this.setFilters(fcfg)
+        return this.setFilters(fcfg, cops)
     }
 
     /**
      * Performs an `ACK` operation on the Event Service
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      */
-    public async ack(): Promise<EventService> {
+    public async ack(cops?: CallOptions): Promise<EventService> {
         this.stats.acks++
-        commonLogger.info(this, '*ack* get request')
-        await this.voidXOperation(this.ackPath)
+        this.logger.info(this, '*ack* get request')
+        await this.voidXOperation(this.ackPath, undefined, 'POST', cops)
         return this
     }
 
     /**
      * Performs a `NACK` operation on the Event Service
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      */
-    public async nack(): Promise<EventService> {
+    public async nack(cops?: CallOptions): Promise<EventService> {
         this.stats.nacks++
-        commonLogger.info(this, '*nack* get request')
-        await this.voidXOperation(this.nackPath)
+        this.logger.info(this, '*nack* get request')
+        await this.voidXOperation(this.nackPath, undefined, 'POST', cops)
         return this
     }
 
     /**
      * Performs a `FLUSH` operation on the Event Service
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      */
-    public async flush(): Promise<EventService> {
+    public async flush(cops?: CallOptions): Promise<EventService> {
         this.stats.flushes++
-        commonLogger.info(this, '*flush* get request')
-        await this.voidXOperation(this.flushPath)
+        this.logger.info(this, '*flush* get request')
+        await this.voidXOperation(this.flushPath, undefined, 'POST', cops)
         return this
     }
 
-    public *[Symbol.iterator](): IterableIterator<Promise<EsEvent[]>> {
+    /**
+     * Infinite iterator over `poll()` promises. It is not the class sync iterator anymore because TypeScript could
+     * pick it instead of the async one in `for await` loops. Consider using `events()` instead
+     */
+    public *polls(): IterableIterator<Promise<EsEvent[]>> {
         while (true) {
             yield this.poll()
         }
     }
 
+    public [Symbol.asyncIterator](): AsyncIterableIterator<EsEvent> {
+        return this.events()
+    }
+
+    /**
+     * Async iterator over the events in the channel, to be used with `for await`. The channel is polled only when
+     * the consumer asks for more events (waiting `autoPollSleep` milliseconds after empty responses).
+     * Each batch is acknowledged (`ACK`) when the item following its last one is requested and it is rejected
+     * (`NACK`) if the loop is left before (`break`, `return` or an exception), so unprocessed events are delivered
+     * again. The `ack` poll option is ignored. The iterator ends once `pause()` is called
+     * @param ops iterator options
+     * @param cops optional cancellation settings (abort signal and/or deadline) applied to the whole iteration
+     */
+    public events(ops: EsIteratorOptions & { batch: true }, cops?: CallOptions): AsyncIterableIterator<EsEvent[]>
+    public events(ops?: EsIteratorOptions, cops?: CallOptions): AsyncIterableIterator<EsEvent>
+    public events(ops?: EsIteratorOptions, cops?: CallOptions): AsyncIterableIterator<EsEvent | EsEvent[]> {
+        let batchMode = (ops && ops.batch) ? true : false
+        let signal = new IteratorSignal((cops) ? cops.signal : undefined)
+        let icops: CallOptions = { signal: signal, deadline: (cops) ? cops.deadline : undefined }
+        let buffer: EsEvent[] = []
+        let unacked = false
+        let done = false
+        let queue: Promise<any> = Promise.resolve()
+        let ended: IteratorResult<any> = { done: true, value: undefined }
+        this.iterators.push(signal)
+        let finish = async (): Promise<void> => {
+            if (done) {
+                return
+            }
+            done = true
+            buffer = []
+            signal.release()
+            this.iterators = this.iterators.filter(i => i !== signal)
+            if (unacked) {
+                unacked = false
+                try {
+                    // not bound to the caller's signal or deadline: they might be the reason the iteration is over
+                    await this.nack()
+                } catch (e) {
+                    this.logger.alert(this, `Failed to nack the pending batch: ${e.message}`, 'ITERATOR')
+                }
+            }
+        }
+        let step = async (): Promise<IteratorResult<EsEvent | EsEvent[]>> => {
+            try {
+                if (signal.aborted) {
+                    throw new PanCloudError(this, 'ABORTED', 'Iterator stopped')
+                }
+                if (buffer.length) {
+                    return { done: false, value: buffer.shift() as EsEvent }
+                }
+                if (unacked) {
+                    await this.ack(icops)
+                    unacked = false
+                }
+                while (true) {
+                    let batch: EsEvent[] = []
+                    let pause = this.circuitDelay()
+                    if (!pause) {
+                        try {
+                            batch = await this.fetchEvents(icops)
+                        } catch (e) {
+                            if (!isCircuitOpenError(e)) {
+                                throw e
+                            }
+                            pause = this.circuitDelay()
+                        }
+                    }
+                    if (batch.length) {
+                        unacked = true
+                        if (batchMode) {
+                            return { done: false, value: batch }
+                        }
+                        buffer = batch
+                        return { done: false, value: buffer.shift() as EsEvent }
+                    }
+                    await abortableDelay(this, Math.max(this.apSleep, pause), icops)
+                }
+            } catch (e) {
+                let paused = signal.aborted && !(cops && cops.signal && cops.signal.aborted)
+                await finish()
+                if (paused && isAbortError(e)) {
+                    return ended
+                }
+                throw e
+            }
+        }
+        let enqueue = (op: () => Promise<IteratorResult<any>>): Promise<IteratorResult<any>> => {
+            let result = queue.then(op)
+            queue = result.catch(() => undefined)
+            return result
+        }
+        let iterator: AsyncIterableIterator<EsEvent | EsEvent[]> = {
+            next: () => enqueue(async () => (done) ? ended : step()),
+            return: (value?: any) => enqueue(async () => {
+                await finish()
+                return { done: true, value: value }
+            }),
+            throw: (e?: any) => enqueue(async () => {
+                await finish()
+                throw e
+            }),
+            [Symbol.asyncIterator]: () => iterator
+        }
+        return iterator
+    }
+
     /**
      * Performs a `POLL` operation on the Event Service
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      * @returns a promise that resolves to an array of {@link esEvent} objects
      */
-    public async poll(): Promise<EsEvent[]> {
+    public async poll(cops?: CallOptions): Promise<EsEvent[]> {
+        let events = await this.fetchEvents(cops)
+        if (this.popts.ack) {
+            await this.ack(cops)
+        }
+        return events
+    }
+
+    private async fetchEvents(cops?: CallOptions): Promise<EsEvent[]> {
         this.stats.polls++
-        commonLogger.info(this, '*poll* get request')
+        this.logger.info(this, '*poll* get request')
         let body: string = '{}'
         if (this.popts.pollTimeout != 1000) {
             body = JSON.stringify({ pollTimeout: this.popts.pollTimeout })
         }
-        let rJson = await this.fetchPostWrap(this.pollPath, body);
+        let rJson = await this.fetchPostWrap(this.pollPath, body, undefined, true, cops);
         this.lastResponse = rJson
         if (rJson && typeof rJson == "object" && rJson instanceof Array) {
             if (rJson.every(e => {
@@ -486,42 +909,151 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
                 }
                 return false
             })) {
-                if (this.popts.ack) {
-                    await this.ack()
-                }
                 return rJson as EsEvent[]
             }
         }
-        throw new PanCloudError(this, 'PARSER', 'Response is not a valid ES Event array')
+        throw new SchemaError(this, 'Response is not a valid ES Event array')
     }
 
-    private static async autoPoll(es: EventService): Promise<void> {
-        es.polling = true
-        es.tout = undefined
-        let e: EsEvent[] = []
-        try {
-            e = await es.poll()
+    /**
+     * Performs a single AutoPoll cycle: polls the channel and sends the events to the registered receivers
+     * (honoring the delivery mode). Nothing is done while the circuit breaker is open
+     * @returns the number of `EsEvent` items received
+     */
+    public async pollAndEmit(): Promise<number> {
+        return (await this.pollAndEmitBatch()).length
+    }
+
+    private async pollAndEmitBatch(): Promise<EsEvent[]> {
+        if (this.circuitDelay()) {
+            return []
+        }
+        return withSpan(this.tracer, 'pancloud.events.autopoll', { 'pancloud.channel_id': this.channelId }, async span => {
+            if (this.delivery.mode == 'at-least-once') {
+                let batch = await this.fetchEvents()
+                if (span) {
+                    span.setAttribute('pancloud.records', batch.length)
+                }
+                if (batch.length) {
+                    await this.deliver(batch)
+                }
+                return batch
+            }
+            let e = await this.poll()
+            if (span) {
+                span.setAttribute('pancloud.records', e.length)
+            }
             e.forEach(i => {
-                es.eevent.logType = i.logType
-                es.eevent.message = i.event
-                es.emitMessage(es.eevent)
+                this.eevent.logType = i.logType
+                this.eevent.message = i.event
+                this.emitMessage(this.eevent)
             })
-        } catch (err) {
-            commonLogger.error(PanCloudError.fromError(es, err))
+            return e
+        })
+    }
+
+    /**
+     * A batch is full if any log type received as many events as its filter `batchSize`
+     */
+    private batchOutcome(batch: EsEvent[]): PollOutcome {
+        if (!batch.length) {
+            return 'empty'
+        }
+        let counts: { [logType: string]: number } = {}
+        batch.forEach(i => counts[i.logType] = (counts[i.logType] || 0) + i.event.length)
+        return Object.keys(counts).some(t => counts[t] >= ((t in this.batchSizes) ? this.batchSizes[t] : DEFAULT_FILTER_BATCH_SIZE)) ?
+            'full' : 'partial'
+    }
+
+    private static autoPoll(es: EventService): void {
+        es.tout = undefined
+        if (!es.polling) {
+            return
+        }
+        es.apCycle = es.autoPollCycle().then(delay => {
+            es.apCycle = undefined
+            if (es.polling) {
+                es.stats.autoPollDelay = delay
+                es.tout = setTimeout(EventService.autoPoll, delay, es)
+            }
+        })
+    }
+
+    /**
+     * @returns milliseconds to wait before the next cycle
+     */
+    private async autoPollCycle(): Promise<number> {
+        let delay = 0
+        let pause = this.circuitDelay()
+        if (!pause) {
+            let outcome: PollOutcome = 'empty'
+            let waited = 0
+            let started = Date.now()
+            try {
+                outcome = this.batchOutcome(await this.pollAndEmitBatch())
+                waited = Math.min(Date.now() - started, this.popts.pollTimeout)
+            } catch (err) {
+                if (isCircuitOpenError(err)) {
+                    this.logger.alert(this, err.message, 'AUTOPOLL')
+                } else {
+                    this.emitError((isSdkError(err)) ? err : PanCloudError.fromError(this, err))
+                }
+            }
+            delay = this.scheduler.next(outcome, waited)
+            pause = this.circuitDelay()
+        }
+        return Math.max(delay, pause)
+    }
+
+    /**
+     * At-least-once delivery of a batch: acknowledges it only if all receivers succeed
+     */
+    private async deliver(batch: EsEvent[]): Promise<void> {
+        let failure: Error | undefined
+        for (let i of batch) {
+            try {
+                await this.emitMessageSettled({ source: this.eevent.source, logType: i.logType, message: i.event })
+            } catch (err) {
+                failure = (err instanceof Error) ? err : new Error(String(err))
+                break
+            }
+        }
+        if (!failure) {
+            this.failedDeliveries = 0
+            await this.ack()
+            return
+        }
+        let attempts = ++this.failedDeliveries
+        let maxRedeliveries = (this.delivery.maxRedeliveries !== undefined) ? this.delivery.maxRedeliveries : 5
+        if (attempts <= maxRedeliveries) {
+            this.stats.redeliveries++
+            this.logger.alert(this, `Receiver failed (${failure.message}). Batch rejected (attempt ${attempts})`, 'DELIVERY')
+            await this.nack()
+            return
         }
-        if (es.polling) {
-            if (e.length) {
-                setImmediate(EventService.autoPoll, es)
+        try {
+            if (this.delivery.deadLetter) {
+                await this.delivery.deadLetter(batch, failure, attempts)
             } else {
-                es.tout = setTimeout(EventService.autoPoll, es.apSleep, es)
+                this.emitError(new PanCloudError(this, 'UNKNOWN',
+                    `Discarding poison batch of ${batch.length} events after ${attempts} attempts: ${failure.message}`))
             }
+        } catch (err) {
+            this.stats.redeliveries++
+            this.emitError(PanCloudError.fromError(this, err))
+            await this.nack()
+            return
         }
+        this.stats.deadLettered++
+        this.failedDeliveries = 0
+        await this.ack()
     }
 
     /**
-     * Stops this class AutoPoll feature for this Event Service instance
+     * Stops this class AutoPoll feature for this Event Service instance and ends its async iterators
      */
     public pause(): void {
+        this.iterators.forEach(i => i.abort())
         this.polling = false
         if (this.tout) {
             clearTimeout(this.tout)
@@ -535,7 +1067,26 @@ export class EventService extends Emitter implements Iterable<Promise<EsEvent[]>
      * the method {@link EventService.setFilters}
      */
     public resume(): void {
-        EventService.autoPoll(this)
+        if (this.isClosed()) {
+            throw new PanCloudError(this, 'CONFIG', 'EventService is closed')
+        }
+        this.scheduler.reset()
+        this.polling = true
+        if (!this.apCycle) {
+            if (this.tout) {
+                clearTimeout(this.tout)
+            }
+            EventService.autoPoll(this)
+        }
+    }
+
+    /**
+     * Stops the AutoPoll feature and the async iterators, waiting for the poll cycle in progress
+     */
+    protected async quiesce(drain: boolean, deadline: number): Promise<boolean> {
+        this.pause()
+        let drained = (drain && this.apCycle) ? await settleWithin([this.apCycle], deadline) : true
+        return await super.quiesce(drain, deadline) && drained
     }
 
     public getEsStats(): EsStats {
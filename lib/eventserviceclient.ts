@@ -0,0 +1,127 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { EventService, EsEvent, EsFilterBuilderCfg } from './eventservice'
+import { Readable, ReadableOptions } from 'stream'
+import { PancloudLogger } from './common'
+
+export class EventServiceClient extends Readable {
+    private es: EventService
+    private cfg: EsFilterBuilderCfg
+    private flushOnDestroy = true
+    private manualAck = false
+    private logger: PancloudLogger
+    private ended = false
+    private batches?: AsyncIterableIterator<EsEvent[]>
+    private pending?: Promise<IteratorResult<EsEvent[]>>
+    private unconfirmed = false
+    private reading = false
+    static className = "EventServiceClient"
+
+    /**
+     * Readable (object mode) stream of Event Service batches. The filter is set on the first read. A batch is
+     * acknowledged (`ACK`) when the next one is requested by the consumer. Batches not acknowledged when the stream
+     * is destroyed are rejected (`NACK`) so they will be delivered again
+     * @param es the Event Service object bound to the channel. Its auto-poll feature is stopped
+     * @param cfg filter to be set (callbacks are ignored). `flushOnDestroy` (defaults to **true**) controls whether the
+     * channel is flushed when the filter is cleared on `destroy()`. If `manualAck` is **true** (defaults to **false**)
+     * each batch must be confirmed with `ack()` once it has been processed downstream: the next batch is not
+     * delivered until then
+     */
+    constructor(es: EventService, cfg: EsFilterBuilderCfg & { flushOnDestroy?: boolean, manualAck?: boolean },
+        opts?: ReadableOptions) {
+        super({ ...opts, objectMode: true, highWaterMark: 1 })
+        this.es = es
+        this.logger = es.getLogger()
+        this.cfg = { ...cfg, filterOptions: { ...cfg.filterOptions } }
+        delete this.cfg.filterOptions!.callBack
+        if (cfg.flushOnDestroy !== undefined) {
+            this.flushOnDestroy = cfg.flushOnDestroy
+        }
+        if (cfg.manualAck !== undefined) {
+            this.manualAck = cfg.manualAck
+        }
+    }
+
+    private async lazyInit(): Promise<AsyncIterableIterator<EsEvent[]>> {
+        if (!this.batches) {
+            await this.es.filterBuilder(this.cfg)
+            this.batches = this.es.events({ batch: true })
+        }
+        return this.batches
+    }
+
+    /**
+     * Asks the iterator for the next batch (which acknowledges the previous one in the channel)
+     */
+    private request(): void {
+        let pending = this.lazyInit().then(batches => batches.next())
+        pending.catch(() => undefined)
+        this.pending = pending
+    }
+
+    private deliver(): void {
+        if (this.ended || !this.reading || this.unconfirmed || !this.pending) {
+            return
+        }
+        let pending = this.pending
+        this.pending = undefined
+        this.reading = false
+        pending.then(r => {
+            if (this.ended) {
+                return
+            }
+            if (r.done) {
+                this.logger.info(EventServiceClient, 'Event Service iterator ended', 'READ')
+                this.push(null)
+            } else {
+                this.unconfirmed = this.manualAck
+                this.push(r.value)
+            }
+        }).catch(e => this.destroy(e))
+    }
+
+    /**
+     * Only used with `manualAck`. Confirms the last batch read from the stream has been processed. It is
+     * acknowledged (`ACK`) in the channel and the next batch is requested
+     */
+    ack(): void {
+        if (!this.unconfirmed || this.ended) {
+            return
+        }
+        this.unconfirmed = false
+        this.request()
+        this.deliver()
+    }
+
+    _read(): void {
+        this.reading = true
+        if (!this.unconfirmed && !this.pending) {
+            this.request()
+        }
+        this.deliver()
+    }
+
+    _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        this.ended = true
+        if (this.batches === undefined) {
+            callback(error)
+            return
+        }
+        let batches = this.batches
+        this.es.pause()
+        batches.return!()
+            .then(() => this.es.clearFilter(this.flushOnDestroy))
+            .then(() => callback(error), e => callback(error || e))
+    }
+}
\ No newline at end of file
@@ -0,0 +1,253 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Implements a manager that owns several Event Service channels bound to the same credentials and polls
+ * them fairly
+ */
+
+import { EventService, EsOptions, EsStats, EsFilterBuilderCfg } from './eventservice'
+import { Credentials } from './credentials'
+import { PancloudClass, PancloudLogger, commonLogger, scopedLogger } from './common'
+import { PanCloudError, TimeoutError } from './error'
+import { CloseOptions } from './lifecycle'
+
+/**
+ * Options for the EventServiceManager class factory. They are the default options of all channels (the AutoPoll
+ * ones, `autoPollSleep`, `autoPollMaxSleep` and `autoPollBackoff`, schedule the polls of each channel). The logging
+ * ones, `logger`, `level` and `logContext`, apply to the manager as well
+ */
+export interface EsManagerOptions extends EsOptions {
+    /**
+     * If **true** (the default) the channels are polled as soon as the first channel with receivers is added
+     */
+    autoStart?: boolean
+}
+
+/**
+ * Runtime statistics provided by the EventServiceManager class
+ */
+export interface EsManagerStats {
+    /**
+     * Statistics of each channel
+     */
+    channels: { [channelId: string]: EsStats }
+    /**
+     * Sum of the statistics of all channels. Shared statistics (transport, throttle, circuit breaker and
+     * correlation engine) are not included. `autoPollDelay` is the shortest delay before the next poll of a channel
+     */
+    total: EsStats
+}
+
+/**
+ * Owns multiple Event Service channels (each one with its own filter and receivers) for a `Credentials` object.
+ * Each channel is polled on its own schedule, so neither a busy channel nor a slow long-poll can hold the others
+ * back. Poll errors are sent to the **error** topic of the failing channel. Objects of this class must be
+ * obtained using the factory static method
+ */
+export class EventServiceManager implements PancloudClass {
+    private cred: Credentials
+    private ops: EsManagerOptions
+    private channels: { [channelId: string]: EventService }
+    private polling: boolean
+    private closing?: Promise<void>
+    private ownLogger?: PancloudLogger
+    public className: string
+
+    private constructor(cred: Credentials, ops?: EsManagerOptions) {
+        this.className = "EventServiceManager"
+        this.cred = cred
+        this.ops = (ops) ? { ...ops } : {}
+        this.channels = {}
+        this.polling = false
+        this.ownLogger = scopedLogger(this.ops.logger, this.ops.logContext, this.ops.level)
+        this.logger.info(this, `Creating new EventServiceManager object for entryPoint ${cred.getEntryPoint()}`)
+    }
+
+    /**
+     * Logger scoped to this manager (or the common logger if none was configured)
+     */
+    private get logger(): PancloudLogger {
+        return (this.ownLogger) ? this.ownLogger : commonLogger
+    }
+
+    /**
+     * Static factory method to instantiate an Event Service manager
+     * @param cred the **Credentials** object shared by all channels
+     * @param ops default options for all channels
+     */
+    static factory(cred: Credentials, ops?: EsManagerOptions): EventServiceManager {
+        return new EventServiceManager(cred, ops)
+    }
+
+    /**
+     * Adds a channel to the manager and sets its filter. The receivers of the channel must be provided in the
+     * `filterOptions.callBack` property of the filter configuration
+     * @param channelId the *channel-id* to be used
+     * @param cfg filter configuration for the channel
+     * @param ops options for this channel (they override the default ones provided to the factory)
+     * @returns the EventService object bound to the channel
+     */
+    async addChannel(channelId: string, cfg: EsFilterBuilderCfg, ops?: EsOptions): Promise<EventService> {
+        if (this.closing) {
+            throw new PanCloudError(this, 'CONFIG', 'EventServiceManager is closed')
+        }
+        if (this.channels[channelId]) {
+            throw new PanCloudError(this, 'CONFIG', `Channel ${channelId} already managed`)
+        }
+        let es = EventService.factory(this.cred, { ...this.ops, ...ops, channelId: channelId, autoPoll: false })
+        this.channels[channelId] = es
+        try {
+            await es.filterBuilder(cfg)
+        } catch (e) {
+            delete this.channels[channelId]
+            throw e
+        }
+        this.logger.info(this, `Channel ${channelId} added`)
+        if (this.ops.autoStart !== false && cfg.filterOptions && cfg.filterOptions.callBack) {
+            this.polling = true
+        }
+        if (this.polling) {
+            es.resume()
+        }
+        return es
+    }
+
+    /**
+     * Removes a channel from the manager, clearing its filter and closing its EventService object
+     * @param channelId the *channel-id* to be removed
+     * @param flush flush the channel as well. Defaults to **false**
+     */
+    async removeChannel(channelId: string, flush = false): Promise<void> {
+        let es = this.channels[channelId]
+        if (!es) {
+            throw new PanCloudError(this, 'CONFIG', `Channel ${channelId} not managed`)
+        }
+        delete this.channels[channelId]
+        if (!Object.keys(this.channels).length) {
+            this.polling = false
+        }
+        try {
+            await es.clearFilter(flush)
+        } finally {
+            await es.close()
+        }
+        this.logger.info(this, `Channel ${channelId} removed`)
+    }
+
+    /**
+     * @returns the EventService object bound to the channel (if managed)
+     */
+    getChannel(channelId: string): EventService | undefined {
+        return this.channels[channelId]
+    }
+
+    /**
+     * @returns the *channel-id* of all managed channels
+     */
+    getChannels(): string[] {
+        return Object.keys(this.channels)
+    }
+
+    /**
+     * Stops polling the managed channels
+     */
+    public pause(): void {
+        this.polling = false
+        Object.keys(this.channels).forEach(channelId => this.channels[channelId].pause())
+    }
+
+    /**
+     * (Re)Starts polling the managed channels. Channels waiting for their next poll are polled right away
+     */
+    public resume(): void {
+        if (this.closing) {
+            throw new PanCloudError(this, 'CONFIG', 'EventServiceManager is closed')
+        }
+        this.polling = true
+        Object.keys(this.channels).forEach(channelId => this.channels[channelId].resume())
+    }
+
+    /**
+     * Stops polling and closes all managed channels (waiting for their polls in progress). Their filters are kept
+     * in the Event Service
+     * @param ops drain and timeout options (the timeout applies to the whole operation)
+     * @returns a promise resolved once all channels are closed. It is rejected (`TIMEOUT`) if the in-flight work
+     * could not be drained in time
+     */
+    public close(ops?: CloseOptions): Promise<void> {
+        if (!this.closing) {
+            this.closing = this.shutdown(ops)
+        }
+        return this.closing
+    }
+
+    private async shutdown(ops?: CloseOptions): Promise<void> {
+        let drained = true
+        this.polling = false
+        let channels = Object.keys(this.channels).map(channelId => this.channels[channelId])
+        this.channels = {}
+        await Promise.all(channels.map(es => es.close(ops).catch(e => {
+            drained = false
+            this.logger.error(PanCloudError.fromError(this, e))
+        })))
+        if (!drained) {
+            throw new TimeoutError(this, 'Close timeout reached before the in-flight work completed')
+        }
+        this.logger.info(this, `Closed ${channels.length} channels`, 'LIFECYCLE')
+    }
+
+    /**
+     * @returns the statistics of each channel and their sum
+     */
+    public getStats(): EsManagerStats {
+        let channels: { [channelId: string]: EsStats } = {}
+        let total: EsStats = {
+            apiTransactions: 0,
+            retryStats: { attempts: 0, retries: 0, exhausted: 0 },
+            forcedRefreshes: 0,
+            eventsEmitted: 0,
+            pcapsEmitted: 0,
+            correlationEmitted: 0,
+            records: 0,
+            polls: 0,
+            filtersets: 0,
+            filtergets: 0,
+            acks: 0,
+            nacks: 0,
+            flushes: 0,
+            redeliveries: 0,
+            deadLettered: 0,
+            autoPollDelay: 0
+        }
+        let sum = (acc: { [key: string]: any }, stats: { [key: string]: any }) => {
+            Object.keys(acc).forEach(k => {
+                if (k != 'autoPollDelay' && typeof acc[k] == 'number' && typeof stats[k] == 'number') {
+                    acc[k] += stats[k]
+                }
+            })
+        }
+        let delays: number[] = []
+        Object.keys(this.channels).forEach(channelId => {
+            let stats = this.channels[channelId].getEsStats()
+            channels[channelId] = stats
+            sum(total, stats)
+            sum(total.retryStats, stats.retryStats)
+            delays.push(stats.autoPollDelay)
+        })
+        if (delays.length) {
+            total.autoPollDelay = Math.min(...delays)
+        }
+        return { channels: channels, total: total }
+    }
+}
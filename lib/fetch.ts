@@ -11,16 +11,49 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { request, RequestOptions } from 'https'
+import { request as httpsRequest, Agent as HttpsAgent } from 'https'
+import { request as httpRequest, RequestOptions, IncomingMessage, ClientRequest, Agent as HttpAgent } from 'http'
+import { Socket } from 'net'
+import { Readable } from 'stream'
+import { createGunzip, createInflate } from 'zlib'
 import { URL } from 'url'
+import { AbortSignal } from './abort'
+import { PanCloudError, SchemaError, isSdkError } from './error'
+import { BodyParser } from './jsonstream'
+import { ProxyOptions, resolveProxy, proxiedRequestOptions, TunnelingAgent, TunnelRequestOptions } from './proxy'
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+/**
+ * Query parameters to be appended to the URL search string. Entries with `undefined` value are ignored
+ */
+export type FetchQuery = { [i: string]: string | number | boolean | undefined }
+
 export interface FetchOptions {
     method: HttpMethod,
     headers?: { [i: string]: string },
     body?: string,
-    timeout?: number
+    timeout?: number,
+    query?: FetchQuery,
+    /**
+     * Aborting this signal must abort the in-flight request and reject the returned promise
+     */
+    signal?: AbortSignal
+    /**
+     * Request a compressed (`gzip` or `deflate`) response body. Defaults to `true`
+     */
+    compress?: boolean
+    /**
+     * If provided, successful (2XX) response bodies are fed to a parser created by this factory as they are
+     * received instead of being accumulated as a string. A new parser is requested for each attempt
+     */
+    parser?: () => BodyParser
 }
+/**
+ * Response headers (lowercase names)
+ */
+export type FetchHeaders = { [i: string]: string | string[] | undefined }
+
 const statusTextDict: { [i: number]: string } = {
     200: '200 OK',
     300: '301 Moved Permanently',
@@ -29,6 +62,7 @@ const statusTextDict: { [i: number]: string } = {
     304: '304 Not Modified',
     400: '400 Bad Request',
     401: '401 Unauthorized',
+    429: '429 Too Many Requests',
     500: '500 Internal Server Error',
     501: '501 Not Implemented',
     502: '502 Bad Gateway',
@@ -36,19 +70,29 @@ const statusTextDict: { [i: number]: string } = {
     504: '504 Gateway Timeout'
 }
 
-class FetchResponse {
+export class FetchResponse {
     ok: boolean
     status: number
     statusText: string
     size: number
+    headers: FetchHeaders
+    /**
+     * `true` if the body was consumed by a `BodyParser`. `json()` returns the parsed document in that case
+     */
+    readonly parsed: boolean
     private data: string
+    private value: any
 
-    private constructor(ok: boolean, data = '', status = 200) {
+    private constructor(ok: boolean, data = '', status = 200, headers: FetchHeaders = {},
+        parsed?: { value: any, size: number }) {
         this.ok = ok
+        this.parsed = parsed !== undefined
         this.data = data
+        this.value = (parsed) ? parsed.value : undefined
         this.status = status
         this.statusText = (statusTextDict[status]) ? statusTextDict[status] : String(status)
-        this.size = data.length
+        this.size = (parsed) ? parsed.size : data.length
+        this.headers = headers
     }
 
     text(): string {
@@ -56,41 +100,314 @@ class FetchResponse {
     }
 
     json(): any {
-        return JSON.parse(this.data)
+        return (this.parsed) ? this.value : JSON.parse(this.data)
+    }
+
+    /**
+     * @param name case-insensitive header name
+     * @returns the value of the response header or `undefined` if not present
+     */
+    header(name: string): string | undefined {
+        let value = this.headers[name.toLowerCase()]
+        return (Array.isArray(value)) ? value.join(', ') : value
+    }
+
+    static response(ok: boolean, data?: string, status?: number, headers?: FetchHeaders): FetchResponse {
+        return new FetchResponse(ok, data, status, headers)
     }
 
-    static response(ok: boolean, data?: string, status?: number): FetchResponse {
-        return new FetchResponse(ok, data, status)
+    /**
+     * Builds a response whose body has already been parsed by a `BodyParser`
+     * @param size length of the (decoded) body
+     */
+    static parsedResponse(ok: boolean, value: any, size: number, status?: number, headers?: FetchHeaders): FetchResponse {
+        return new FetchResponse(ok, '', status, headers, { value: value, size: size })
     }
 }
 
-export function fetch(url: string, ops: FetchOptions): Promise<FetchResponse> {
+/**
+ * Parses the provided URL and appends (properly encoded) the optional query parameters to its search string
+ * @param url the full URL of the resource (it might already contain a search string)
+ * @param query additional query parameters
+ */
+export function buildUrl(url: string, query?: FetchQuery): URL {
     let newUrl = new URL(url)
-    let rOps: RequestOptions = {
-        protocol: newUrl.protocol,
-        hostname: newUrl.hostname,
-        path: newUrl.pathname,
-        method: ops.method,
-        headers: ops.headers,
-        timeout: ops.timeout
+    if (query) {
+        Object.entries(query).forEach(([k, v]) => {
+            if (v !== undefined) {
+                newUrl.searchParams.append(k, String(v))
+            }
+        })
     }
+    return newUrl
+}
 
-    return new Promise((resolve, reject) => {
-        let cRequest = request(rOps, resp => {
-            let data = '';
-            resp.on('data', chunk => {
-                data += chunk;
-            });
-            resp.on('end', () => {
-                resolve(FetchResponse.response(
-                    !(resp.statusCode && (resp.statusCode < 200 || resp.statusCode > 299)),
-                    data,
-                    resp.statusCode));
+/**
+ * Any object conforming to this interface can be used by the SDK to perform its outbound HTTP
+ * operations. Provide your own implementation (i.e. an in-process stand-in for testing purposes)
+ * using the `transport` configuration option of the SDK classes
+ */
+export interface Transport {
+    /**
+     * Performs the HTTP operation and resolves to the response received. Non 2XX responses must
+     * resolve to a `FetchResponse` object with the `ok` property set to `false`. Only network-level
+     * errors should be reported as rejections. Implementations must honor the `query` option (the `buildUrl`
+     * function can be used for that) and should abort the request when the `signal` option is aborted. Support for the
+     * `compress` and `parser` options is optional
+     * @param url the full URL of the resource
+     * @param ops HTTP operation options
+     */
+    fetch(url: string, ops: FetchOptions): Promise<FetchResponse>
+    /**
+     * Optional runtime statistics about connection usage
+     */
+    readonly stats?: TransportStats
+}
+
+/**
+ * Connection pooling options for the NodeJS based transport
+ */
+export interface AgentOptions {
+    /**
+     * Keep connections open between requests so they can be reused. Defaults to `true`
+     */
+    keepAlive?: boolean
+    /**
+     * Maximum number of concurrent sockets per entry point. Defaults to `Infinity`
+     */
+    maxSockets?: number
+    /**
+     * Maximum number of idle sockets kept open per entry point. Defaults to `256`
+     */
+    maxFreeSockets?: number
+    /**
+     * Milliseconds of inactivity after which a socket is closed. Defaults to `30000`
+     */
+    idleTimeout?: number
+    /**
+     * Outbound proxy. A string is interpreted as the proxy URL. `false` disables the proxy. Defaults
+     * to the `HTTPS_PROXY` (`HTTP_PROXY` for plain text URLs) and `NO_PROXY` environmental variables
+     */
+    proxy?: string | ProxyOptions | false
+}
+
+/**
+ * Connection usage statistics of a transport
+ */
+export interface TransportStats {
+    /**
+     * Number of HTTP requests sent
+     */
+    requests: number
+    /**
+     * Number of new sockets (TCP/TLS connections) opened
+     */
+    socketsCreated: number
+    /**
+     * Number of requests sent over an already open socket
+     */
+    socketsReused: number
+}
+
+/**
+ * Default transport based on NodeJS `https` (or `http` for plain text URLs) modules. It keeps a pool of
+ * (keep-alive) connections per entry point
+ */
+export class NodeTransport implements Transport {
+    static className = 'NodeTransport'
+    readonly stats: TransportStats
+    private agentOptions: AgentOptions
+    private agents: { [origin: string]: HttpAgent }
+    private knownSockets: WeakSet<Socket>
+
+    constructor(ops?: AgentOptions) {
+        this.agentOptions = {
+            keepAlive: (ops && ops.keepAlive !== undefined) ? ops.keepAlive : true,
+            maxSockets: (ops && ops.maxSockets !== undefined) ? ops.maxSockets : Infinity,
+            maxFreeSockets: (ops && ops.maxFreeSockets !== undefined) ? ops.maxFreeSockets : 256,
+            idleTimeout: (ops && ops.idleTimeout !== undefined) ? ops.idleTimeout : 30000,
+            proxy: (ops) ? ops.proxy : undefined
+        }
+        this.agents = {}
+        this.knownSockets = new WeakSet()
+        this.stats = {
+            requests: 0,
+            socketsCreated: 0,
+            socketsReused: 0
+        }
+    }
+
+    private agent(url: URL, proxy?: URL): HttpAgent {
+        let key = (proxy) ? `${url.origin}|${proxy.href}` : url.origin
+        if (!(key in this.agents)) {
+            let agentOps = {
+                keepAlive: this.agentOptions.keepAlive,
+                maxSockets: this.agentOptions.maxSockets,
+                maxFreeSockets: this.agentOptions.maxFreeSockets,
+                timeout: this.agentOptions.idleTimeout
+            }
+            if (url.protocol == 'http:') {
+                this.agents[key] = (proxy && proxy.protocol == 'https:') ? new HttpsAgent(agentOps) : new HttpAgent(agentOps)
+            } else {
+                this.agents[key] = (proxy) ? new TunnelingAgent(proxy, agentOps) : new HttpsAgent(agentOps)
+            }
+        }
+        return this.agents[key]
+    }
+
+    /**
+     * Closes all pooled connections
+     */
+    destroy(): void {
+        Object.values(this.agents).forEach(a => a.destroy())
+        this.agents = {}
+    }
+
+    fetch(url: string, ops: FetchOptions): Promise<FetchResponse> {
+        let newUrl = buildUrl(url, ops.query)
+        let proxy = resolveProxy(newUrl, this.agentOptions.proxy)
+        let headers: { [i: string]: string } = { ...ops.headers }
+        if (ops.compress !== false && !Object.keys(headers).some(h => h.toLowerCase() == 'accept-encoding')) {
+            headers['Accept-Encoding'] = 'gzip, deflate'
+        }
+        let rOps: RequestOptions = {
+            protocol: newUrl.protocol,
+            hostname: newUrl.hostname,
+            port: newUrl.port,
+            path: newUrl.pathname + newUrl.search,
+            method: ops.method,
+            headers: headers,
+            timeout: ops.timeout,
+            agent: this.agent(newUrl, proxy)
+        }
+        if (proxy && newUrl.protocol == 'http:') {
+            rOps = proxiedRequestOptions(rOps, newUrl, proxy)
+        } else if (rOps.agent instanceof TunnelingAgent) {
+            let tOps: TunnelRequestOptions = { ...rOps, tunnelSignal: ops.signal, tunnelTimeout: ops.timeout }
+            rOps = tOps
+        }
+        let request: (o: RequestOptions, cb: (r: IncomingMessage) => void) => ClientRequest =
+            (rOps.protocol == 'http:') ? httpRequest : httpsRequest
+
+        return new Promise((resolve, reject) => {
+            let signal = ops.signal
+            if (signal && signal.aborted) {
+                reject(new PanCloudError(NodeTransport, 'ABORTED', 'HTTP request aborted'))
+                return
+            }
+            let onAbort = () => {
+                cRequest.abort()
+                reject(new PanCloudError(NodeTransport, 'ABORTED', 'HTTP request aborted'))
+            }
+            let cRequest = request(rOps, resp => {
+                let body: Readable = resp
+                let encoding = resp.headers['content-encoding']
+                if (encoding == 'gzip' || encoding == 'x-gzip') {
+                    body = resp.pipe(createGunzip())
+                } else if (encoding == 'deflate') {
+                    body = resp.pipe(createInflate())
+                }
+                body.setEncoding('utf8')
+                let ok = !(resp.statusCode && (resp.statusCode < 200 || resp.statusCode > 299))
+                let parser = (ok && ops.parser) ? ops.parser() : undefined
+                let data = ''
+                let size = 0
+                let failed = false
+                let fail = (err: Error) => {
+                    failed = true
+                    if (signal) {
+                        signal.removeEventListener('abort', onAbort)
+                    }
+                    resp.destroy()
+                    reject(err)
+                }
+                body.on('data', (chunk: string) => {
+                    if (failed) {
+                        return
+                    }
+                    size += chunk.length
+                    if (!parser) {
+                        data += chunk
+                        return
+                    }
+                    try {
+                        parser.write(chunk)
+                    } catch (e) {
+                        fail(new SchemaError(NodeTransport, `Invalid JSON: ${e.message}`, { cause: e }))
+                    }
+                });
+                body.on('end', () => {
+                    if (failed) {
+                        return
+                    }
+                    if (signal) {
+                        signal.removeEventListener('abort', onAbort)
+                    }
+                    if (!(parser && size > 0)) {
+                        resolve(FetchResponse.response(ok, data, resp.statusCode, resp.headers))
+                        return
+                    }
+                    try {
+                        resolve(FetchResponse.parsedResponse(ok, parser.end(), size, resp.statusCode, resp.headers))
+                    } catch (e) {
+                        reject(new SchemaError(NodeTransport, `Invalid JSON: ${e.message}`, { cause: e }))
+                    }
+                });
+                let onStreamError = (err: Error) => {
+                    if (!failed) {
+                        fail(Error(err.message))
+                    }
+                }
+                resp.on('error', onStreamError)
+                if (body != resp) {
+                    body.on('error', onStreamError)
+                }
+            }).on("error", err => {
+                if (signal) {
+                    signal.removeEventListener('abort', onAbort)
+                }
+                reject((isSdkError(err)) ? err : Error(err.message))
             });
-        }).on("error", err => {
-            reject(Error(err.message))
-        });
-        cRequest.end(ops.body)
-    })
+            cRequest.on('socket', (socket: Socket) => {
+                if (this.knownSockets.has(socket)) {
+                    this.stats.socketsReused++
+                } else {
+                    this.knownSockets.add(socket)
+                    this.stats.socketsCreated++
+                }
+            })
+            if (signal) {
+                signal.addEventListener('abort', onAbort)
+            }
+            this.stats.requests++
+            cRequest.end(ops.body)
+        })
+    }
+}
+
+/**
+ * Transport object used by the SDK when no other one is provided in the configuration options
+ */
+export const defaultTransport: Transport = new NodeTransport()
+
+let sharedTransports: { [key: string]: NodeTransport } = {}
+
+/**
+ * Returns a NodeJS based transport with the provided pooling options. Transports are cached so all
+ * objects requesting the same options will share the same connection pools
+ * @param ops connection pooling (and proxy) options
+ */
+export function nodeTransport(ops: AgentOptions): NodeTransport {
+    let key = JSON.stringify([ops.keepAlive, ops.maxSockets, ops.maxFreeSockets, ops.idleTimeout, ops.proxy])
+    if (!(key in sharedTransports)) {
+        sharedTransports[key] = new NodeTransport(ops)
+    }
+    return sharedTransports[key]
 }
 
+/**
+ * Convenience function that performs the HTTP operation using the `defaultTransport` object
+ */
+export function fetch(url: string, ops: FetchOptions): Promise<FetchResponse> {
+    return defaultTransport.fetch(url, ops)
+}
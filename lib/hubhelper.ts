@@ -11,7 +11,8 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { commonLogger, EntryPoint, region2EntryPoint, OAUTH2SCOPE } from './common'
+import { commonLogger, EntryPoint, OAUTH2SCOPE } from './common'
+import { regionEntryPoint, isValidEntryPoint } from './regions'
 import { CortexCredentialProvider, AugmentedIdpResponse } from './credentialprovider'
 import { Credentials } from './credentials'
 import { FetchOptions } from './fetch'
@@ -96,7 +97,7 @@ export function isCortexClientParams<T extends { [key: string]: string }>(obj: a
         (obj.lsn == undefined || typeof obj.lsn == 'string') &&
         obj.location && typeof obj.location == 'object' &&
         obj.location.region && typeof obj.location.region == 'string' &&
-        obj.location.entryPoint && typeof obj.location.entryPoint == 'string'
+        isValidEntryPoint(obj.location.entryPoint)
 }
 
 /**
@@ -348,9 +349,13 @@ export abstract class CortexHubHelper<T extends { [key: string]: string }, U, K
         if (!(parsed.region && typeof parsed.region == 'string')) {
             throw new PanCloudError(CortexHubHelper, 'PARSER', `Missing or invalid region in ${queryString}`)
         }
+        let entryPoint = regionEntryPoint(parsed.region)
+        if (!entryPoint) {
+            throw new PanCloudError(CortexHubHelper, 'PARSER', `Unknown region ${parsed.region} (see registerRegion())`)
+        }
         let cParams: CortexClientParams<T> = {
             instance_id: parsed.instance_id,
-            location: { region: parsed.region, entryPoint: region2EntryPoint[parsed.region] }
+            location: { region: parsed.region, entryPoint: entryPoint }
         }
         delete parsed.instance_id
         delete parsed.region
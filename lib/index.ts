@@ -14,13 +14,25 @@
 export { Credentials, defaultCredentialsFactory } from './credentials'
 export { DevTokenCredentialsOptions, DevTokenCredentials } from './devtokencredentials'
 export { autoCredentials } from './autocredentials'
-export { LoggingService, LsOptions, LsQueryCfg, LsControlMessage } from './loggingservice'
+export { LoggingService, LsOptions, LsQueryCfg, LsControlMessage, JobResult, JobHit } from './loggingservice'
 export { LoggingServiceClient } from './loggingserviceclient'
-export { EventService, EsOptions, EsFilterBuilderCfg, EsFilterCfg } from './eventservice'
+export { EventServiceClient } from './eventserviceclient'
+export { EventService, EsOptions, EsFilterBuilderCfg, EsFilterCfg, EsIteratorOptions, EsEvent, EsDeliveryOptions, EsStats,
+    EsEnsureOptions, EsFilterDiff, EsFilterChange } from './eventservice'
 export { DirectorySyncService, DssOptions, DssQueryFilter, DssObjClass } from './directorysyncservice'
-export { EmitterInterface, L2correlation } from './emitter'
-export { LogLevel, retrier, commonLogger, OAUTH2SCOPE, EntryPoint, setLogLevel, setLogger } from './common'
-export { isSdkError, PanCloudError } from './error'
+export { EmitterInterface, EmitterListener, L2correlation, EmitterTopics, EmitterTopic, EmitterScope, EmitterHandler } from './emitter'
+export {
+    LogLevel, commonLogger, OAUTH2SCOPE, EntryPoint, setLogLevel, setLogger, RetryPolicy, RetryStats,
+    PancloudLogger, LogContext, LogFormat, SdkLogger, SdkLoggerOptions, redactSecrets
+} from './common'
+export {
+    CoreOptions, CoreStats, AuthRefreshEvent, RequestContext, RequestInterceptor, ResponseInterceptor, ErrorInterceptor
+} from './core'
+export {
+    isSdkError, SdkErr, PanCloudError, ApplicationFrameworkError, AuthError, QuotaError, NotFoundError, ServerError,
+    TimeoutError, SchemaError, ErrorContext
+} from './error'
+export { AbortSignal, CallOptions, isAbortError } from './abort'
 export { Util } from './util'
 export {
     CortexCredentialProvider, CredentialProviderOptions,
@@ -30,4 +42,24 @@ export {
     CortexClientParams, CortexHelperOptions, CortexHubHelper,
     HubIdpCallback, HubIdpStateData, isCortexClientParams
 } from './hubhelper'
-export { fsCredentialsFactory } from './fscredentialprovider'
\ No newline at end of file
+export { fsCredentialsFactory } from './fscredentialprovider'
+export {
+    Transport, FetchOptions, FetchQuery, FetchResponse, HttpMethod, defaultTransport, buildUrl, NodeTransport, nodeTransport,
+    AgentOptions, TransportStats, FetchHeaders
+} from './fetch'
+export { BodyParser, JsonStreamParser } from './jsonstream'
+export { ProxyOptions, bypassProxy, resolveProxy } from './proxy'
+export { Throttle, ThrottleOptions, ThrottleStats } from './throttle'
+export { CircuitBreaker, CircuitState, BreakerOptions, BreakerEvent, BreakerStats, isCircuitOpenError } from './breaker'
+export {
+    MetricsRegistry, MetricLabels, Counter, Histogram, defaultRegistry, serveMetrics, DEFAULT_BUCKETS
+} from './metrics'
+export { Tracer, Span, SpanContext, SpanAttributes, SpanAttributeValue, SpanStatusCode, setTracer, getTracer, withSpan, traceparent } from './tracing'
+export { RegionOptions, registerRegion, unregisterRegion, regionEntryPoint, knownRegions, validateEntryPoint, isValidEntryPoint } from './regions'
+export { EventServiceManager, EsManagerOptions, EsManagerStats } from './eventservicemanager'
+export {
+    EsPredicate, EsPredicateBuilder, EsFieldName, EsLiteral, EsComparisonOperator, esPredicate, renderPredicate, parsePredicate,
+    validateEsFilter, registerLogFields, isKnownLogField, canonicalPredicate, normalizeFilterStatement
+} from './esfilter'
+export { AutoPollOptions, AutoPollScheduler, PollOutcome } from './autopoll'
+export { CloseOptions, Closable, SignalOptions, closeOnSignals } from './lifecycle'
\ No newline at end of file
@@ -0,0 +1,230 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Incremental JSON parser used to process large response bodies without materializing them as a single string
+ */
+
+/**
+ * Any object conforming to this interface can consume a response body as it is received. The transport
+ * calls `write()` for each decoded chunk and `end()` once the body is complete
+ */
+export interface BodyParser {
+    write(chunk: string): void
+    /**
+     * @returns the parsed document
+     */
+    end(): any
+}
+
+interface Frame {
+    array: boolean
+    key?: string
+    expectKey: boolean
+    pendingKey?: string
+}
+
+const WHITESPACE = ' \t\n\r'
+
+/**
+ * Streaming parser that extracts the entries of the array found at `path` (a list of object keys from the document
+ * root) as soon as each one of them is complete. The document returned by `end()` contains an empty array in
+ * that position
+ */
+export class JsonStreamParser implements BodyParser {
+    private path: string[]
+    private onItem: (item: any) => void
+    private skeleton: string
+    private item: string
+    private mode: 'skeleton' | 'between' | 'item'
+    private stack: Frame[]
+    private inString: boolean
+    private escape: boolean
+    private keyBuf?: string
+    private itemDepth: number
+    items: number
+
+    /**
+     * @param path object keys leading to the array whose entries must be streamed (i.e.
+     * `['result', 'esResult', 'hits', 'hits']`)
+     * @param onItem called with each parsed entry of the array
+     */
+    constructor(path: string[], onItem: (item: any) => void) {
+        this.path = path
+        this.onItem = onItem
+        this.skeleton = ''
+        this.item = ''
+        this.mode = 'skeleton'
+        this.stack = []
+        this.inString = false
+        this.escape = false
+        this.itemDepth = 0
+        this.items = 0
+    }
+
+    private currentPath(key?: string): string[] | undefined {
+        let keys: string[] = []
+        for (let i = 1; i < this.stack.length; i++) {
+            let k = this.stack[i].key
+            if (k === undefined) {
+                return undefined
+            }
+            keys.push(k)
+        }
+        if (key === undefined) {
+            return undefined
+        }
+        keys.push(key)
+        return keys
+    }
+
+    private isTarget(): boolean {
+        let top = this.stack[this.stack.length - 1]
+        let key = (top && !top.array) ? top.pendingKey : undefined
+        let p = (this.stack.length == 0) ? undefined : this.currentPath(key)
+        return p !== undefined && p.length == this.path.length && p.every((k, i) => k == this.path[i])
+    }
+
+    private emitItem(): void {
+        let value = JSON.parse(this.item)
+        this.item = ''
+        this.items++
+        this.onItem(value)
+    }
+
+    private scanSkeleton(chunk: string, i: number): number {
+        let c = chunk[i]
+        let top = this.stack[this.stack.length - 1]
+        if (this.inString) {
+            this.skeleton += c
+            if (this.escape) {
+                this.escape = false
+            } else if (c == '\\') {
+                this.escape = true
+            } else if (c == '"') {
+                this.inString = false
+                if (this.keyBuf !== undefined) {
+                    top.pendingKey = JSON.parse(`"${this.keyBuf}"`)
+                    this.keyBuf = undefined
+                    top.expectKey = false
+                }
+                return i + 1
+            }
+            if (this.keyBuf !== undefined) {
+                this.keyBuf += c
+            }
+            return i + 1
+        }
+        switch (c) {
+            case '"':
+                this.inString = true
+                if (top && !top.array && top.expectKey) {
+                    this.keyBuf = ''
+                }
+                break
+            case '{':
+            case '[':
+                if (c == '[' && this.isTarget()) {
+                    this.skeleton += '[]'
+                    this.mode = 'between'
+                    return i + 1
+                }
+                this.stack.push({
+                    array: c == '[',
+                    key: (top && !top.array) ? top.pendingKey : undefined,
+                    expectKey: c == '{'
+                })
+                break
+            case '}':
+            case ']':
+                this.stack.pop()
+                break
+            case ',':
+                if (top && !top.array) {
+                    top.expectKey = true
+                }
+                break
+        }
+        this.skeleton += c
+        return i + 1
+    }
+
+    write(chunk: string): void {
+        let i = 0
+        while (i < chunk.length) {
+            if (this.mode == 'skeleton') {
+                i = this.scanSkeleton(chunk, i)
+                continue
+            }
+            if (this.mode == 'between') {
+                let c = chunk[i]
+                if (c == ']') {
+                    this.mode = 'skeleton'
+                    i++
+                } else if (c == ',' || WHITESPACE.includes(c)) {
+                    i++
+                } else {
+                    this.mode = 'item'
+                    this.itemDepth = 0
+                }
+                continue
+            }
+            let start = i
+            let done = false
+            for (; i < chunk.length; i++) {
+                let c = chunk[i]
+                if (this.inString) {
+                    if (this.escape) {
+                        this.escape = false
+                    } else if (c == '\\') {
+                        this.escape = true
+                    } else if (c == '"') {
+                        this.inString = false
+                    }
+                    continue
+                }
+                if (c == '"') {
+                    this.inString = true
+                } else if (c == '{' || c == '[') {
+                    this.itemDepth++
+                } else if (c == '}' || c == ']') {
+                    if (this.itemDepth == 0) {
+                        done = true
+                        break
+                    }
+                    this.itemDepth--
+                    if (this.itemDepth == 0) {
+                        i++
+                        done = true
+                        break
+                    }
+                } else if (this.itemDepth == 0 && (c == ',' || WHITESPACE.includes(c))) {
+                    done = true
+                    break
+                }
+            }
+            this.item += chunk.slice(start, i)
+            if (done) {
+                this.mode = 'between'
+                this.emitItem()
+            }
+        }
+    }
+
+    end(): any {
+        if (this.mode != 'skeleton' || this.stack.length > 0 || this.inString) {
+            throw new SyntaxError('Unexpected end of JSON input')
+        }
+        return JSON.parse(this.skeleton)
+    }
+}
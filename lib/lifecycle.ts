@@ -0,0 +1,108 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Lifecycle (graceful shutdown) helpers shared by all services
+ */
+
+import { commonLogger } from './common'
+import { PanCloudError } from './error'
+
+/**
+ * Options for the `close()` method of the services
+ */
+export interface CloseOptions {
+    /**
+     * If **true** (the default) in-flight work (poll cycles, event receivers and HTTP requests) is allowed to
+     * complete. Otherwise the object stops right away and late results are discarded
+     */
+    drain?: boolean
+    /**
+     * Maximum amount of milliseconds to wait for the in-flight work to complete. Defaults to **30000ms**
+     */
+    timeout?: number
+}
+
+/**
+ * Any object featuring a graceful shutdown
+ */
+export interface Closable {
+    close(ops?: CloseOptions): Promise<void>
+}
+
+/**
+ * Options for the `closeOnSignals()` function
+ */
+export interface SignalOptions extends CloseOptions {
+    /**
+     * Process signals that trigger the shutdown. Defaults to **['SIGTERM', 'SIGINT']**
+     */
+    signals?: NodeJS.Signals[]
+    /**
+     * If **true** (the default) the process exits once all objects are closed (exit code `1` if any of them
+     * failed to close). A second signal exits immediately
+     */
+    exit?: boolean
+}
+
+/**
+ * @param work promises to wait for (their rejections are ignored)
+ * @param deadline absolute time (milliseconds since the Unix epoch) to stop waiting
+ * @returns **false** if the deadline was reached before all promises were settled
+ */
+export function settleWithin(work: Promise<any>[], deadline: number): Promise<boolean> {
+    if (!work.length) {
+        return Promise.resolve(true)
+    }
+    return new Promise(resolve => {
+        let timer = setTimeout(() => resolve(false), Math.max(0, deadline - Date.now()))
+        Promise.all(work.map(p => p.catch(() => { }))).then(() => {
+            clearTimeout(timer)
+            resolve(true)
+        })
+    })
+}
+
+/**
+ * Closes the provided objects when the process receives a termination signal
+ * @param objects objects to be closed (concurrently)
+ * @param ops signals and close options
+ * @returns a function that removes the signal handlers
+ */
+export function closeOnSignals(objects: Closable[], ops?: SignalOptions): () => void {
+    let signals = (ops && ops.signals) ? ops.signals : ['SIGTERM', 'SIGINT'] as NodeJS.Signals[]
+    let exit = (ops && ops.exit !== undefined) ? ops.exit : true
+    let closing = false
+    let handler = (signal: NodeJS.Signals) => {
+        if (closing) {
+            commonLogger.alert({ className: 'closeOnSignals' }, `${signal} received while closing`, 'LIFECYCLE')
+            if (exit) {
+                process.exit(1)
+            }
+            return
+        }
+        closing = true
+        commonLogger.alert({ className: 'closeOnSignals' }, `${signal} received. Closing ${objects.length} objects`, 'LIFECYCLE')
+        let failed = false
+        Promise.all(objects.map(o => o.close(ops).catch(e => {
+            failed = true
+            commonLogger.error(PanCloudError.fromError({ className: 'closeOnSignals' }, e))
+        }))).then(() => {
+            if (exit) {
+                process.exit((failed) ? 1 : 0)
+            }
+        })
+    }
+    signals.forEach(s => process.on(s, handler))
+    return () => signals.forEach(s => process.removeListener(s, handler))
+}
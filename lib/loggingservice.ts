@@ -15,12 +15,17 @@
  * High level abstraction of the Application Framework Logging Service
  */
 
-import { ApiPath, isKnownLogType, LogType, commonLogger } from './common'
+import { ApiPath, isKnownLogType, LogType, commonLogger, childLogger } from './common'
 import { Emitter, EmitterOptions, EmitterInterface, EmitterStats, L2correlation } from './emitter'
-import { PanCloudError, isSdkError, SdkErr } from './error'
+import { PanCloudError, SchemaError, isSdkError, SdkErr } from './error'
 import { setTimeout } from 'timers';
 import { Credentials } from './credentials';
-import { EventEmitter } from 'events';
+import { CallOptions, callSignal, abortError, isAbortError } from './abort'
+import { JsonStreamParser } from './jsonstream'
+import { isCircuitOpenError } from './breaker'
+import { withSpan } from './tracing'
+import { AutoPollOptions, AutoPollScheduler, PollOutcome } from './autopoll'
+import { settleWithin } from './lifecycle'
 
 /**
  * Default delay (in milliseconds) between successive polls (auto-poll feature). It can be overrided in the
@@ -28,6 +33,7 @@ import { EventEmitter } from 'events';
  */
 const MSLEEP = 200;
 const LSPATH: ApiPath = "logging-service/v1"
+const HITS_PATH = ['result', 'esResult', 'hits', 'hits']
 const jStatus = {
     'RUNNING': '', 'FINISHED': '', 'JOB_FINISHED': '', 'JOB_FAILED': '', 'CANCELLED': ''
 }
@@ -62,6 +68,10 @@ interface LsStats extends EmitterStats {
      */
     deletes: number
     writes: number
+    /**
+     * Milliseconds the AutoPoll feature waited (or is waiting) before its last poll
+     */
+    autoPollDelay: number
 }
 
 /**
@@ -134,6 +144,15 @@ export interface LsQueryCfg {
     }
 }
 
+/**
+ * Entry of the `esResult.hits.hits` array
+ */
+export interface JobHit {
+    _index: string,
+    _type: string,
+    _source: any
+}
+
 /**
  * main properties of the Logging Service job result schema
  */
@@ -145,11 +164,7 @@ export interface JobResult {
     result: {
         esResult?: {
             hits: {
-                hits: {
-                    _index: string,
-                    _type: string,
-                    _source: any
-                }[],
+                hits: JobHit[],
                 total?: number
             },
             response?: {
@@ -193,6 +208,7 @@ interface JobEntry {
     maxWaitTime?: number
     clientParameters?: any
     totalHits?: number
+    release?: () => void
 }
 
 /**
@@ -229,11 +245,15 @@ export interface LsControlMessage {
 /**
  * Options for the LoggingService class factory
  */
-export interface LsOptions extends EmitterOptions {
+export interface LsOptions extends EmitterOptions, AutoPollOptions {
     /**
-     * Amount of milliseconds to wait between consecutive autopoll() attempts. Defaults to **200ms**
+     * Amount of milliseconds to wait between consecutive autopoll() attempts while data is being received. It grows
+     * up to `autoPollMaxSleep` after consecutive empty polls. Defaults to **200ms**
      */
     autoPollSleep?: number
+    /**
+     * Receiver of the query status updates (same as subscribing it to the **control** topic)
+     */
     controlListener?: (message: LsControlMessage) => void
 }
 
@@ -241,14 +261,15 @@ export interface LsOptions extends EmitterOptions {
  * High-level class that implements an Application Framework Logging Service client. It supports both sync
  * and async features. Objects of this class must be obtained using the factory static method
  */
-export class LoggingService extends Emitter {
+export class LoggingService extends Emitter<LsControlMessage> {
     private eevent: EmitterInterface<any[]>
     private apSleep: number
+    private scheduler: AutoPollScheduler
     private tout: NodeJS.Timer | undefined
+    private apCycle?: Promise<void>
     private jobQueue: { [i: string]: JobEntry }
     private lastProcElement: number
     private pendingQueries: string[]
-    private controlEmitter?: EventEmitter
     protected stats: LsStats
 
     /**
@@ -259,12 +280,12 @@ export class LoggingService extends Emitter {
         this.className = "LoggingService"
         this.eevent = { source: 'LoggingService' }
         this.apSleep = (ops && ops.autoPollSleep) ? ops.autoPollSleep : MSLEEP
+        this.scheduler = new AutoPollScheduler(this.apSleep, ops)
         this.jobQueue = {}
         this.lastProcElement = 0
         this.pendingQueries = []
         if (ops && ops.controlListener) {
-            this.controlEmitter = new EventEmitter()
-            this.controlEmitter.addListener('on', ops.controlListener)
+            this.on('control', ops.controlListener)
         }
         this.stats = {
             records: 0,
@@ -272,6 +293,7 @@ export class LoggingService extends Emitter {
             polls: 0,
             queries: 0,
             writes: 0,
+            autoPollDelay: 0,
             ...this.stats
         }
     }
@@ -295,20 +317,27 @@ export class LoggingService extends Emitter {
      * @param CallBack toggles the auto-poll feature for this query and registers the handler in the 'event' topic
      * so it can receive result events. Providing 'null' will trigger the auto-poll feature for the query but without
      * registering any handler to the 'event' topic (to be used when a handler is already registered to receive events)
+     * @param cops optional cancellation settings (abort signal and/or deadline). If the operation is aborted once the
+     * query has been created (including while it is in the auto-poll queue) then the query is deleted
      * @returns a promise with the Application Framework response
      */
-    async query(cfg: LsQueryCfg): Promise<JobResult> {
-        commonLogger.info(this, `*queries* post request. Query: ${JSON.stringify(cfg)}`)
+    async query(cfg: LsQueryCfg, cops?: CallOptions): Promise<JobResult> {
+        this.logger.info(this, `*queries* post request. Query: ${JSON.stringify(cfg)}`)
         this.stats.queries++
         let providedLogType = cfg.logType
         delete cfg.logType
         let providedCallback = cfg.callBack
         delete cfg.callBack
         let cfgStr = JSON.stringify(cfg)
-        let rJson = await this.fetchPostWrap('/queries', cfgStr)
+        let rJson = await this.fetchPostWrap('/queries', cfgStr, undefined, false, cops)
         this.lastResponse = rJson
         if (!isJobResult(rJson)) {
-            throw new PanCloudError(this, 'PARSER', `Response is not a valid LS JOB Doc: ${JSON.stringify(rJson)}`)
+            throw new SchemaError(this, `Response is not a valid LS JOB Doc: ${JSON.stringify(rJson)}`)
+        }
+        let abortErr = abortError(this, cops)
+        if (abortErr) {
+            await this.abortCleanup(rJson.queryId)
+            throw abortErr
         }
         if (rJson.result.esResult) {
             this.stats.records += rJson.result.esResult.hits.hits.length
@@ -317,17 +346,17 @@ export class LoggingService extends Emitter {
             if (providedCallback) {
                 if (providedCallback.event) {
                     if (!this.registerEventListener(providedCallback.event)) {
-                        commonLogger.info(this, "Event receiver already registered and duplicates not allowed is set to TRUE", "RECEIVER")
+                        this.logger.info(this, "Event receiver already registered and duplicates not allowed is set to TRUE", "RECEIVER")
                     }
                 }
                 if (providedCallback.pcap) {
                     if (!this.registerPcapListener(providedCallback.pcap)) {
-                        commonLogger.info(this, "PCAP receiver already registered and duplicates not allowed is set to TRUE", "RECEIVER")
+                        this.logger.info(this, "PCAP receiver already registered and duplicates not allowed is set to TRUE", "RECEIVER")
                     }
                 }
                 if (providedCallback.corr) {
                     if (!this.registerCorrListener(providedCallback.corr)) {
-                        commonLogger.info(this, "CORR receiver already registered and duplicates not allowed is set to TRUE", "RECEIVER")
+                        this.logger.info(this, "CORR receiver already registered and duplicates not allowed is set to TRUE", "RECEIVER")
                     }
                 }
                 let seq = 0
@@ -341,17 +370,15 @@ export class LoggingService extends Emitter {
                         clientParameters: cfg.clientParameters
                     }
                 })
+                this.jobAbortHandler(rJson.queryId, cops)
                 this.pendingQueries = Object.keys(this.jobQueue)
                 this.eventEmitter(rJson)
                 if (rJson.result.esResult) {
-                    if (this.controlEmitter) {
-                        let ctrlMessage: LsControlMessage = {
-                            lastKnownStatus: rJson.queryStatus,
-                            queryId: rJson.queryId,
-                            totalHits: rJson.result.esResult.hits.total
-                        }
-                        this.controlEmitter.emit('on', ctrlMessage)
-                    }
+                    this.emitControl({
+                        lastKnownStatus: rJson.queryStatus,
+                        queryId: rJson.queryId,
+                        totalHits: rJson.result.esResult.hits.total
+                    })
                 }
                 if (rJson.queryStatus == "JOB_FINISHED") {
                     let jobResolver = this.jobQueue[rJson.queryId].resolve
@@ -361,9 +388,11 @@ export class LoggingService extends Emitter {
                 if (rJson.queryStatus == "FINISHED") {
                     this.jobQueue[rJson.queryId].sequenceNo = rJson.sequenceNo + 1
                 }
+                this.scheduler.reset()
                 if (this.pendingQueries.length > 0 && this.tout === undefined) {
+                    this.stats.autoPollDelay = this.apSleep
                     this.tout = setTimeout(LoggingService.autoPoll, this.apSleep, this)
-                    commonLogger.info(this, "query autopoller scheduled", "QUERY")
+                    this.logger.info(this, "query autopoller scheduled", "QUERY")
                 }
                 return jobPromise
             }
@@ -388,26 +417,61 @@ export class LoggingService extends Emitter {
      * This parameter's maximum value is 30000 (30 seconds). If this parameter is not
      * specified, 0 is used, in which case the HTTP connection is closed immediately upon
      * completion of the HTTP request
+     * @param cops optional cancellation settings (abort signal and/or deadline). The query is deleted if the
+     * operation is aborted
+     * @param onHit if provided, the entries of the `esResult.hits.hits` array are parsed incrementally and
+     * passed to this handler as they are received (the returned result will contain an empty array). Entries of
+     * an attempt that fails half way might be delivered again by the retry logic
      * @returns a promise with the Application Framework response
      */
-    async poll(qid: string, sequenceNo: number, maxWaitTime?: number): Promise<JobResult> {
+    async poll(qid: string, sequenceNo: number, maxWaitTime?: number, cops?: CallOptions,
+        onHit?: (hit: JobHit) => void): Promise<JobResult> {
         this.stats.polls++
-        let targetPath = `/queries/${qid}/${sequenceNo}`
-        if (maxWaitTime && maxWaitTime > 0) {
-            targetPath += `?maxWaitTime=${maxWaitTime}`
+        let targetPath = `/queries/${encodeURIComponent(qid)}/${sequenceNo}`
+        let streamed = 0
+        let parser = (onHit) ? () => new JsonStreamParser(HITS_PATH, hit => {
+            streamed++
+            onHit(hit)
+        }) : undefined
+        let rJson: any
+        try {
+            rJson = await this.fetchGetWrap(targetPath, (maxWaitTime && maxWaitTime > 0) ? { maxWaitTime } : undefined,
+                cops, parser);
+        } catch (e) {
+            if (isAbortError(e)) {
+                await this.abortCleanup(qid)
+            }
+            throw e
         }
-        let rJson = await this.fetchGetWrap(targetPath);
         this.lastResponse = rJson
         if (isJobResult(rJson)) {
             if (rJson.result.esResult) {
-                this.stats.records += rJson.result.esResult.hits.hits.length
+                let hits = rJson.result.esResult.hits
+                this.stats.records += hits.hits.length + streamed
+                if (onHit && hits.hits.length > 0) {
+                    // the transport did not support incremental parsing
+                    hits.hits.forEach(onHit)
+                    hits.hits = []
+                }
             }
             return rJson
         }
-        throw new PanCloudError(this, 'PARSER', `Response is not a valid LS JOB Doc: ${JSON.stringify(rJson)}`)
+        throw new SchemaError(this, `Response is not a valid LS JOB Doc: ${JSON.stringify(rJson)}`)
+    }
+
+    private static autoPoll(ls: LoggingService): void {
+        ls.apCycle = LoggingService.autoPollCycle(ls).catch(err => {
+            ls.emitError((isSdkError(err)) ? err : PanCloudError.fromError(ls, err))
+        }).then(() => {
+            ls.apCycle = undefined
+        })
     }
 
-    private static async autoPoll(ls: LoggingService): Promise<void> {
+    private static async autoPollCycle(ls: LoggingService): Promise<void> {
+        if (ls.isClosed()) {
+            ls.tout = undefined
+            return
+        }
         ls.lastProcElement++
         if (ls.lastProcElement >= ls.pendingQueries.length) {
             ls.lastProcElement = 0
@@ -421,22 +485,44 @@ export class LoggingService extends Emitter {
             sequenceNo: 0,
             clientParameters: {}
         }
+        let pause = ls.circuitDelay()
+        if (pause) {
+            ls.stats.autoPollDelay = Math.max(ls.apSleep, pause)
+            ls.tout = setTimeout(LoggingService.autoPoll, ls.stats.autoPollDelay, ls)
+            return
+        }
+        let qLogger = childLogger(ls.logger, { queryId: currentQid })
+        let outcome: PollOutcome = 'empty'
+        let waited = 0
+        let started = Date.now()
         try {
-            jobR = await ls.poll(currentQid, currentJob.sequenceNo, currentJob.maxWaitTime)
+            jobR = await withSpan(ls.tracer, 'pancloud.logging.autopoll', {
+                'pancloud.query_id': currentQid,
+                'pancloud.sequence_no': currentJob.sequenceNo
+            }, async span => {
+                let r = await ls.poll(currentQid, currentJob.sequenceNo, currentJob.maxWaitTime)
+                if (span) {
+                    span.setAttribute('pancloud.query_status', r.queryStatus)
+                    span.setAttribute('pancloud.records', (r.result.esResult) ? r.result.esResult.hits.hits.length : 0)
+                }
+                return r
+            })
+            waited = Math.min(Date.now() - started, currentJob.maxWaitTime || 0)
+            // a FINISHED page means more results are ready to be retrieved
+            outcome = (jobR.queryStatus == "FINISHED") ? 'full' : (jobR.queryStatus == "RUNNING") ? 'empty' : 'partial'
             if (jobR.queryStatus == "JOB_FAILED") {
-                commonLogger.alert(ls, `JOB_FAILED returned. Cancelling query ${currentQid}`, 'AUTOPOLL')
-                await ls.cancelPoll(currentQid, new PanCloudError(ls, "UNKNOWN", "JOB_FAILED"))
+                qLogger.alert(ls, `JOB_FAILED returned. Cancelling query ${currentQid}`, 'AUTOPOLL')
+                let jobErr = new PanCloudError(ls, "UNKNOWN", "JOB_FAILED")
+                ls.emitError(jobErr, { queryId: currentQid })
+                await ls.cancelPoll(currentQid, jobErr)
             } else {
                 ls.eventEmitter(jobR)
                 if (jobR.result.esResult) {
-                    if (ls.controlEmitter) {
-                        let ctrlMessage: LsControlMessage = {
-                            lastKnownStatus: jobR.queryStatus,
-                            queryId: jobR.queryId,
-                            totalHits: jobR.result.esResult.hits.total
-                        }
-                        ls.controlEmitter.emit('on', ctrlMessage)
-                    }
+                    ls.emitControl({
+                        lastKnownStatus: jobR.queryStatus,
+                        queryId: jobR.queryId,
+                        totalHits: jobR.result.esResult.hits.total
+                    })
                 }
                 if (jobR.queryStatus == "FINISHED") {
                     currentJob.sequenceNo++
@@ -447,28 +533,74 @@ export class LoggingService extends Emitter {
                 }
             }
         } catch (err) {
-            if (isSdkError(err)) {
-                commonLogger.alert(ls, `Error triggered. Cancelling query ${currentQid}`, 'AUTOPOLL')
+            if (isCircuitOpenError(err) || (isSdkError(err) && !isAbortError(err) && ls.endpointDegraded())) {
+                qLogger.alert(ls, `Endpoint degraded (${err.message}). Keeping query ${currentQid} in the queue`, 'AUTOPOLL')
+            } else if (isSdkError(err)) {
+                qLogger.alert(ls, `Error triggered. Cancelling query ${currentQid}`, 'AUTOPOLL')
+                ls.emitError(err, { queryId: currentQid })
                 await ls.cancelPoll(currentQid, err)
             } else {
-                commonLogger.error(PanCloudError.fromError(ls, err))
+                ls.emitError(PanCloudError.fromError(ls, err), { queryId: currentQid })
             }
         }
-        if (ls.pendingQueries.length) {
-            ls.tout = setTimeout(LoggingService.autoPoll, ls.apSleep, ls)
+        if (ls.pendingQueries.length && !ls.isClosed()) {
+            ls.stats.autoPollDelay = Math.max(ls.scheduler.next(outcome, waited), ls.circuitDelay())
+            ls.tout = setTimeout(LoggingService.autoPoll, ls.stats.autoPollDelay, ls)
         } else {
+            ls.scheduler.reset()
             ls.tout = undefined
-            commonLogger.info(ls, "query autopoller de-scheduled", "AUTOPOLL")
+            ls.logger.info(ls, "query autopoller de-scheduled", "AUTOPOLL")
+        }
+    }
+
+    /**
+     * Attaches the cancellation settings to a query in the auto-poll queue. The query is cancelled (and deleted)
+     * as soon as the operation is aborted
+     */
+    private jobAbortHandler(qid: string, cops?: CallOptions): void {
+        let { signal, release } = callSignal(cops)
+        if (!signal) {
+            return
+        }
+        let abortSignal = signal
+        let onAbort = () => {
+            let err = abortError(this, cops)
+            this.logger.alert(this, `Operation aborted. Cancelling query ${qid}`, 'ABORT')
+            this.cancelPoll(qid, (err) ? err : new PanCloudError(this, 'ABORTED', 'Operation aborted')).catch(e => {
+                this.logger.error(PanCloudError.fromError(this, e))
+            })
+        }
+        abortSignal.addEventListener('abort', onAbort)
+        this.jobQueue[qid].release = () => {
+            abortSignal.removeEventListener('abort', onAbort)
+            release()
+        }
+    }
+
+    /**
+     * Best effort attempt to delete a query whose operation has been aborted
+     */
+    private async abortCleanup(qid: string): Promise<void> {
+        this.logger.alert(this, `Operation aborted. Deleting query ${qid}`, 'ABORT')
+        try {
+            await this.deleteQuery(qid)
+        } catch (e) {
+            this.logger.error(PanCloudError.fromError(this, e))
         }
     }
 
     /**
      * User can use this method to cancel (remove) a query from the auto-poll queue
      * @param qid query id to be cancelled 
+     * @param err if provided, the query promise will be rejected with it
+     * @param cops optional cancellation settings (abort signal and/or deadline) for the delete operation
      */
-    public cancelPoll(qid: string, err?: SdkErr): Promise<void> {
+    public cancelPoll(qid: string, err?: SdkErr, cops?: CallOptions): Promise<void> {
         if (qid in this.jobQueue) {
             let jobToCancel = this.jobQueue[qid]
+            if (jobToCancel.release) {
+                jobToCancel.release()
+            }
             delete this.jobQueue[qid]
             this.pendingQueries = Object.keys(this.jobQueue)
             if (this.pendingQueries.length == 0 && this.tout) {
@@ -494,17 +626,18 @@ export class LoggingService extends Emitter {
                 })
             }
         }
-        return this.deleteQuery(qid)
+        return this.deleteQuery(qid, cops)
     }
 
     /**
      * Use this method to cancel a running query
      * @param qid the query id to be cancelled 
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      */
-    public deleteQuery(queryId: string): Promise<void> {
-        commonLogger.info(this, `*queries* delete request. QueryID: ${queryId}`)
+    public deleteQuery(queryId: string, cops?: CallOptions): Promise<void> {
+        this.logger.info(this, `*queries* delete request. QueryID: ${queryId}`)
         this.stats.deletes++
-        return this.voidXOperation(`/queries/${queryId}`, undefined, 'DELETE')
+        return this.voidXOperation(`/queries/${encodeURIComponent(queryId)}`, undefined, 'DELETE', cops)
     }
 
     /**
@@ -517,14 +650,15 @@ export class LoggingService extends Emitter {
      * @param data The logs that you write to the Logging Service must at a minimum include the
      * primary timestamp and log type fields that you identified when you registered your app with
      * Palo Alto Networks. Refer to the documentation for more details
+     * @param cops optional cancellation settings (abort signal and/or deadline)
      */
-    public async write(vendorName: string, logType: string, data: any[]): Promise<WriteResult> {
+    public async write(vendorName: string, logType: string, data: any[], cops?: CallOptions): Promise<WriteResult> {
         this.stats.writes++
-        commonLogger.info(this, `*logs* write for vendor name ${vendorName} and log type ${logType}`)
-        let rJson = await this.fetchPostWrap(`/logs/${vendorName}/${logType}`, JSON.stringify(data))
+        this.logger.info(this, `*logs* write for vendor name ${vendorName} and log type ${logType}`)
+        let rJson = await this.fetchPostWrap(`/logs/${vendorName}/${logType}`, JSON.stringify(data), undefined, false, cops)
         this.lastResponse = rJson
         if (!isWriteResult(rJson)) {
-            throw new PanCloudError(this, 'PARSER', `Response is not a valid LS Write Response: ${JSON.stringify(rJson)}`)
+            throw new SchemaError(this, `Response is not a valid LS Write Response: ${JSON.stringify(rJson)}`)
         }
         return rJson
     }
@@ -552,11 +686,11 @@ export class LoggingService extends Emitter {
                 if (isKnownLogType(lType)) {
                     this.eevent.logType = lType
                 } else {
-                    commonLogger.alert(this, `Discarding event set of unknown log type: ${lType}`, "EMITTER")
+                    this.logger.alert(this, `Discarding event set of unknown log type: ${lType}`, "EMITTER")
                     return
                 }
             } else {
-                commonLogger.alert(
+                this.logger.alert(
                     this,
                     `Discarding empty event set from source without known log type: ${JSON.stringify(j).substr(0, 300)}`,
                     "EMITTER")
@@ -573,11 +707,31 @@ export class LoggingService extends Emitter {
             this.l2CorrFlush()
         }
         if (qid in this.jobQueue) {
+            let release = this.jobQueue[qid].release
+            if (release) {
+                release()
+            }
             delete this.jobQueue[qid]
         }
         this.pendingQueries = Object.keys(this.jobQueue)
     }
 
+    /**
+     * Stops the query autopoller (waiting for the poll in progress) and cancels all queries in its queue. They
+     * are deleted from the Logging Service and their promises rejected (`ABORTED`)
+     */
+    protected async quiesce(drain: boolean, deadline: number): Promise<boolean> {
+        if (this.tout) {
+            clearTimeout(this.tout)
+            this.tout = undefined
+        }
+        let drained = (drain && this.apCycle) ? await settleWithin([this.apCycle], deadline) : true
+        await Promise.all(Object.keys(this.jobQueue).map(qid =>
+            this.cancelPoll(qid, new PanCloudError(this, 'ABORTED', 'LoggingService closed'), { deadline: deadline })
+                .catch(e => this.logger.error(PanCloudError.fromError(this, e)))))
+        return await super.quiesce(drain, deadline) && drained
+    }
+
     public getLsStats(): LsStats {
         return this.stats
     }
@@ -0,0 +1,290 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Metrics registry for the SDK runtime statistics and its Prometheus text exposition format renderer
+ */
+
+import { createServer, Server } from 'http'
+
+/**
+ * Metric labels (name / value pairs)
+ */
+export type MetricLabels = { [name: string]: string }
+
+/**
+ * Default latency histogram buckets (seconds)
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+function labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.keys(labels).sort().map(k => [k, labels[k]]))
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function renderLabels(labels: MetricLabels, extra?: MetricLabels): string {
+    let all: MetricLabels = { ...labels, ...extra }
+    let names = Object.keys(all)
+    if (names.length == 0) {
+        return ''
+    }
+    return `{${names.map(n => `${n}="${escapeLabel(all[n])}"`).join(',')}}`
+}
+
+function renderValue(value: number): string {
+    if (value == Infinity) {
+        return '+Inf'
+    }
+    return (Number.isNaN(value)) ? 'NaN' : String(value)
+}
+
+function snakeCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()
+}
+
+/**
+ * Monotonic counter
+ */
+export class Counter {
+    readonly name: string
+    readonly help: string
+    private values: Map<string, { labels: MetricLabels, value: number }>
+
+    constructor(name: string, help: string) {
+        this.name = name
+        this.help = help
+        this.values = new Map()
+    }
+
+    inc(labels: MetricLabels = {}, value = 1): void {
+        let key = labelKey(labels)
+        let entry = this.values.get(key)
+        if (!entry) {
+            entry = { labels: { ...labels }, value: 0 }
+            this.values.set(key, entry)
+        }
+        entry.value += value
+    }
+
+    get(labels: MetricLabels = {}): number {
+        let entry = this.values.get(labelKey(labels))
+        return (entry) ? entry.value : 0
+    }
+
+    render(): string[] {
+        let lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+        this.values.forEach(e => lines.push(`${this.name}${renderLabels(e.labels)} ${renderValue(e.value)}`))
+        return lines
+    }
+}
+
+interface HistogramEntry {
+    labels: MetricLabels
+    counts: number[]
+    sum: number
+    count: number
+}
+
+/**
+ * Histogram with cumulative buckets
+ */
+export class Histogram {
+    readonly name: string
+    readonly help: string
+    private buckets: number[]
+    private values: Map<string, HistogramEntry>
+
+    constructor(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+        this.name = name
+        this.help = help
+        this.buckets = [...buckets].sort((a, b) => a - b)
+        this.values = new Map()
+    }
+
+    observe(labels: MetricLabels, value: number): void {
+        let key = labelKey(labels)
+        let entry = this.values.get(key)
+        if (!entry) {
+            entry = { labels: { ...labels }, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+            this.values.set(key, entry)
+        }
+        for (let i = 0; i < this.buckets.length; i++) {
+            if (value <= this.buckets[i]) {
+                entry.counts[i]++
+            }
+        }
+        entry.sum += value
+        entry.count++
+    }
+
+    render(): string[] {
+        let lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+        this.values.forEach(e => {
+            this.buckets.forEach((b, i) => lines.push(
+                `${this.name}_bucket${renderLabels(e.labels, { le: renderValue(b) })} ${e.counts[i]}`))
+            lines.push(`${this.name}_bucket${renderLabels(e.labels, { le: '+Inf' })} ${e.count}`)
+            lines.push(`${this.name}_sum${renderLabels(e.labels)} ${renderValue(e.sum)}`)
+            lines.push(`${this.name}_count${renderLabels(e.labels)} ${e.count}`)
+        })
+        return lines
+    }
+}
+
+interface StatsSource {
+    id: number
+    stats: () => object
+    labels: () => MetricLabels
+}
+
+/**
+ * Normalizes a request path to be used as a label value (path segments containing identifiers, sequence
+ * numbers, etc. are replaced by `:id`)
+ * @param path request path (relative to the service base URL)
+ */
+export function endpointLabel(path?: string): string {
+    if (!path) {
+        return '/'
+    }
+    return path.split('/').map(s => (/[0-9]/.test(s) || s.length > 32) ? ':id' : s).join('/')
+}
+
+/**
+ * Collection of metrics. SDK objects report into the registry provided in their `metrics` configuration option
+ */
+export class MetricsRegistry {
+    readonly prefix: string
+    private counters: { [name: string]: Counter }
+    private histograms: { [name: string]: Histogram }
+    private sources: Map<number, StatsSource>
+    private nextId: number
+
+    /**
+     * @param prefix prefix for the names of all metrics in this registry. Defaults to `pancloud`
+     */
+    constructor(prefix = 'pancloud') {
+        this.prefix = prefix
+        this.counters = {}
+        this.histograms = {}
+        this.sources = new Map()
+        this.nextId = 0
+    }
+
+    /**
+     * Returns (creating it if needed) the counter with the provided name (the registry prefix is prepended)
+     */
+    counter(name: string, help: string): Counter {
+        let fullName = `${this.prefix}_${name}`
+        if (!(fullName in this.counters)) {
+            this.counters[fullName] = new Counter(fullName, help)
+        }
+        return this.counters[fullName]
+    }
+
+    /**
+     * Returns (creating it if needed) the histogram with the provided name (the registry prefix is prepended)
+     */
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        let fullName = `${this.prefix}_${name}`
+        if (!(fullName in this.histograms)) {
+            this.histograms[fullName] = new Histogram(fullName, help, buckets)
+        }
+        return this.histograms[fullName]
+    }
+
+    /**
+     * Registers a runtime statistics source. All numeric properties of the statistics object (nested objects are
+     * flattened) are exposed as gauges named `<prefix>_stats_<property>`
+     * @param stats returns the statistics object (i.e. the one returned by `getLsStats()`). It is called each time
+     * the registry is rendered
+     * @param labels returns the labels identifying the source of the statistics (an `instance` label is added)
+     * @returns an identifier that can be used to unregister the source
+     */
+    registerStats(stats: () => object, labels: () => MetricLabels): number {
+        let id = this.nextId++
+        this.sources.set(id, { id: id, stats: stats, labels: labels })
+        return id
+    }
+
+    /**
+     * Removes a runtime statistics object from the registry
+     * @param id the identifier returned by `registerStats()`
+     */
+    unregisterStats(id: number): void {
+        this.sources.delete(id)
+    }
+
+    private flatten(obj: any, path: string, out: { [name: string]: number }): void {
+        Object.keys(obj).forEach(k => {
+            let v = obj[k]
+            let name = (path) ? `${path}_${snakeCase(k)}` : snakeCase(k)
+            if (typeof v == 'number') {
+                out[name] = v
+            } else if (v && typeof v == 'object' && !Array.isArray(v)) {
+                this.flatten(v, name, out)
+            }
+        })
+    }
+
+    /**
+     * Renders all metrics using the Prometheus text exposition format (version 0.0.4)
+     */
+    render(): string {
+        let lines: string[] = []
+        Object.values(this.counters).forEach(c => lines.push(...c.render()))
+        Object.values(this.histograms).forEach(h => lines.push(...h.render()))
+        let gauges: { [name: string]: string[] } = {}
+        this.sources.forEach(s => {
+            let values: { [name: string]: number } = {}
+            let labels = { ...s.labels(), instance: String(s.id) }
+            this.flatten(s.stats(), '', values)
+            Object.entries(values).forEach(([k, v]) => {
+                let name = `${this.prefix}_stats_${k}`
+                if (!(name in gauges)) {
+                    gauges[name] = [`# HELP ${name} Runtime statistics property ${k}`, `# TYPE ${name} gauge`]
+                }
+                gauges[name].push(`${name}${renderLabels(labels)} ${renderValue(v)}`)
+            })
+        })
+        Object.values(gauges).forEach(g => lines.push(...g))
+        return lines.join('\n') + '\n'
+    }
+}
+
+/**
+ * Registry used by the SDK objects configured with `metrics: true`
+ */
+export const defaultRegistry = new MetricsRegistry()
+
+/**
+ * Serves the registry in the Prometheus text exposition format at `http://<host>:<port>/metrics`
+ * @param port TCP port to listen on
+ * @param registry the registry to serve. Defaults to `defaultRegistry`
+ * @param host address to listen on. Defaults to `127.0.0.1`
+ * @returns the HTTP server (call its `close()` method to stop serving)
+ */
+export function serveMetrics(port: number, registry = defaultRegistry, host = '127.0.0.1'): Server {
+    let server = createServer((req, res) => {
+        if (req.method != 'GET' || !req.url || req.url.split('?')[0] != '/metrics') {
+            res.statusCode = 404
+            res.end()
+            return
+        }
+        res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+        res.end(registry.render())
+    })
+    server.listen(port, host)
+    return server
+}
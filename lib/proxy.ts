@@ -0,0 +1,292 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Outbound HTTP(S) proxy support for the NodeJS based transport
+ */
+
+import { request as httpsRequest, Agent as HttpsAgent, AgentOptions as HttpsAgentOptions, RequestOptions as HttpsRequestOptions } from 'https'
+import { request as httpRequest, IncomingMessage, RequestOptions } from 'http'
+import { connect as tlsConnect, ConnectionOptions } from 'tls'
+import { Socket } from 'net'
+import { Duplex } from 'stream'
+import { URL } from 'url'
+import { env } from 'process'
+import { AbortSignal } from './abort'
+import { PanCloudError, TimeoutError } from './error'
+
+/**
+ * Default amount of milliseconds to wait for the proxy to establish a `CONNECT` tunnel
+ */
+const CONNECT_TIMEOUT = 30000
+
+/**
+ * Explicit proxy configuration
+ */
+export interface ProxyOptions {
+    /**
+     * Proxy URL (`http://[user:password@]host[:port]`). Basic authentication credentials can be provided
+     * in the URL user information
+     */
+    url: string
+    /**
+     * List of hosts that must be contacted directly. Each entry can be a host name, a domain suffix
+     * (`.example.com`), an IP address, an optional `:port` restriction or the wildcard `*`. IPv6 addresses must be
+     * enclosed in brackets when a port is provided (`[fe80::1]:8080`). Defaults to the value of the `NO_PROXY`
+     * environmental variable
+     */
+    noProxy?: string[]
+}
+
+function envValue(...names: string[]): string | undefined {
+    for (let name of names) {
+        if (env[name]) {
+            return env[name]
+        }
+    }
+    return undefined
+}
+
+function envNoProxy(): string[] {
+    let value = envValue('NO_PROXY', 'no_proxy')
+    return (value) ? value.split(',').map(x => x.trim()).filter(x => x.length > 0) : []
+}
+
+function defaultPort(protocol: string): string {
+    return (protocol == 'https:') ? '443' : '80'
+}
+
+/**
+ * Splits a `NO_PROXY` entry into its host and (optional) port. Bare IPv6 addresses have no port
+ */
+function splitHostPort(entry: string): [string, string | undefined] {
+    if (entry.startsWith('[')) {
+        let end = entry.indexOf(']')
+        if (end > 0) {
+            let rest = entry.substr(end + 1)
+            return [entry.substring(1, end), (rest.startsWith(':')) ? rest.substr(1) : undefined]
+        }
+    }
+    let colon = entry.lastIndexOf(':')
+    if (colon < 0 || entry.indexOf(':') != colon) {
+        return [entry, undefined]
+    }
+    return [entry.substr(0, colon), entry.substr(colon + 1)]
+}
+
+/**
+ * @returns the IPv6 address in the canonical form used by URL host names (without brackets)
+ */
+function canonicalIPv6(address: string): string {
+    try {
+        return new URL(`http://[${address}]`).hostname.slice(1, -1)
+    } catch {
+        return address
+    }
+}
+
+/**
+ * Checks whether the target URL must bypass the proxy
+ * @param url target URL
+ * @param noProxy list of `NO_PROXY` entries
+ */
+export function bypassProxy(url: URL, noProxy: string[]): boolean {
+    let hostname = url.hostname.toLowerCase()
+    if (hostname.startsWith('[')) {
+        hostname = hostname.slice(1, -1)
+    }
+    let port = (url.port) ? url.port : defaultPort(url.protocol)
+    return noProxy.some(entry => {
+        if (entry == '*') {
+            return true
+        }
+        let [entryHost, entryPort] = splitHostPort(entry.toLowerCase())
+        if (entryPort && entryPort != port) {
+            return false
+        }
+        if (entryHost.includes(':')) {
+            return hostname == canonicalIPv6(entryHost)
+        }
+        if (entryHost.startsWith('*')) {
+            entryHost = entryHost.substr(1)
+        }
+        if (entryHost.startsWith('.')) {
+            return hostname.endsWith(entryHost) || hostname == entryHost.substr(1)
+        }
+        return hostname == entryHost || hostname.endsWith(`.${entryHost}`)
+    })
+}
+
+/**
+ * Resolves the proxy (if any) to be used to reach the target URL
+ * @param url target URL
+ * @param proxy explicit proxy configuration. `false` disables the proxy and `undefined` means that
+ * `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environmental variables must be used
+ * @returns the proxy URL or `undefined` if the target must be contacted directly
+ */
+export function resolveProxy(url: URL, proxy?: ProxyOptions | string | false): URL | undefined {
+    if (proxy === false) {
+        return undefined
+    }
+    let proxyUrl: string | undefined
+    let noProxy: string[]
+    if (proxy === undefined) {
+        proxyUrl = (url.protocol == 'https:') ?
+            envValue('HTTPS_PROXY', 'https_proxy') :
+            envValue('HTTP_PROXY', 'http_proxy')
+        noProxy = envNoProxy()
+    } else if (typeof proxy == 'string') {
+        proxyUrl = proxy
+        noProxy = envNoProxy()
+    } else {
+        proxyUrl = proxy.url
+        noProxy = (proxy.noProxy) ? proxy.noProxy : envNoProxy()
+    }
+    if (!proxyUrl || bypassProxy(url, noProxy)) {
+        return undefined
+    }
+    return new URL(proxyUrl)
+}
+
+/**
+ * @returns the value of the `Proxy-Authorization` header for the proxy URL (if it includes credentials)
+ */
+export function proxyAuthorization(proxy: URL): string | undefined {
+    if (!proxy.username) {
+        return undefined
+    }
+    let credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`
+    return `Basic ${Buffer.from(credentials).toString('base64')}`
+}
+
+/**
+ * Modifies the request options of a plain HTTP request so it is sent to the proxy (absolute URI form)
+ * @param rOps request options for the target
+ * @param target target URL
+ * @param proxy proxy URL
+ */
+export function proxiedRequestOptions(rOps: RequestOptions, target: URL, proxy: URL): RequestOptions {
+    let headers: { [i: string]: any } = { ...rOps.headers, 'Host': target.host }
+    let auth = proxyAuthorization(proxy)
+    if (auth) {
+        headers['Proxy-Authorization'] = auth
+    }
+    return {
+        ...rOps,
+        protocol: proxy.protocol,
+        hostname: proxy.hostname,
+        port: (proxy.port) ? proxy.port : defaultPort(proxy.protocol),
+        path: target.toString(),
+        headers: headers
+    }
+}
+
+/**
+ * Request options understood by the `TunnelingAgent` on top of the `https` ones
+ */
+export type TunnelRequestOptions = HttpsRequestOptions & {
+    servername?: string
+    /**
+     * Aborting this signal aborts the pending `CONNECT` request
+     */
+    tunnelSignal?: AbortSignal
+    /**
+     * Amount of milliseconds to wait for the proxy to establish the tunnel. Defaults to **30000**
+     */
+    tunnelTimeout?: number
+}
+
+/**
+ * `https` agent that reaches its targets through a proxy using `CONNECT` tunnels
+ */
+export class TunnelingAgent extends HttpsAgent {
+    static className = 'TunnelingAgent'
+    private proxy: URL
+
+    constructor(proxy: URL, ops?: HttpsAgentOptions) {
+        super(ops)
+        this.proxy = proxy
+    }
+
+    createConnection(options: TunnelRequestOptions, callback?: (err: Error | null, stream?: Duplex) => void): Duplex | undefined {
+        if (!callback) {
+            throw new Error('Tunneled connections can only be provided through the callback')
+        }
+        let done = callback
+        let signal = options.tunnelSignal
+        let target = `${options.host}:${options.port}`
+        let headers: { [i: string]: string } = { 'Host': target }
+        let auth = proxyAuthorization(this.proxy)
+        if (auth) {
+            headers['Proxy-Authorization'] = auth
+        }
+        let request = (this.proxy.protocol == 'https:') ? httpsRequest : httpRequest
+        let connectReq = request({
+            hostname: this.proxy.hostname,
+            port: (this.proxy.port) ? this.proxy.port : defaultPort(this.proxy.protocol),
+            method: 'CONNECT',
+            path: target,
+            headers: headers,
+            agent: false
+        })
+        let settled = false
+        let settle = () => {
+            settled = true
+            if (signal) {
+                signal.removeEventListener('abort', onAbort)
+            }
+        }
+        let fail = (err: Error) => {
+            if (!settled) {
+                settle()
+                connectReq.abort()
+                done(err)
+            }
+        }
+        let onAbort = () => fail(new PanCloudError(TunnelingAgent, 'ABORTED', `Proxy CONNECT to ${target} aborted`))
+        if (signal) {
+            if (signal.aborted) {
+                onAbort()
+                return undefined
+            }
+            signal.addEventListener('abort', onAbort)
+        }
+        let timeout = (options.tunnelTimeout !== undefined) ? options.tunnelTimeout : CONNECT_TIMEOUT
+        connectReq.setTimeout(timeout, () => {
+            fail(new TimeoutError(TunnelingAgent, `Proxy CONNECT to ${target} timed out after ${timeout} ms`))
+        })
+        connectReq.once('connect', (res: IncomingMessage, socket: Socket) => {
+            if (settled) {
+                socket.destroy()
+                return
+            }
+            settle()
+            socket.setTimeout(0)
+            if (res.statusCode != 200) {
+                socket.destroy()
+                done(new Error(`Proxy CONNECT to ${target} failed with status ${res.statusCode}`))
+                return
+            }
+            let tlsOps: ConnectionOptions = {
+                ...options,
+                port: (options.port !== undefined) ? Number(options.port) : undefined,
+                socket: socket,
+                servername: (options.servername) ? options.servername : options.host
+            }
+            done(null, tlsConnect(tlsOps))
+        })
+        connectReq.once('error', fail)
+        connectReq.end()
+        return undefined
+    }
+}
@@ -0,0 +1,137 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Registry of Cortex regions and their API entry points. Applications can extend it at runtime with additional
+ * regions or custom / private entry points (i.e. a local stand-in used in tests)
+ */
+
+import { URL } from 'url'
+import { EntryPoint, PancloudClass } from './common'
+import { PanCloudError } from './error'
+
+const source: PancloudClass = { className: 'RegionRegistry' }
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+interface RegionEntry {
+    entryPoint: EntryPoint
+    allowHttp: boolean
+}
+
+const regions: { [region: string]: RegionEntry } = {
+    'americas': { entryPoint: 'https://api.us.paloaltonetworks.com', allowHttp: false },
+    'europe': { entryPoint: 'https://api.eu.paloaltonetworks.com', allowHttp: false }
+}
+
+/**
+ * Options for a region being registered
+ */
+export interface RegionOptions {
+    /**
+     * Allow a plain `http` entry point (i.e. a local mock). Plain `http` entry points are always accepted for
+     * `localhost` and loopback addresses. Defaults to `false`
+     */
+    allowHttp?: boolean
+}
+
+function parseEntryPoint(entryPoint: string, src: PancloudClass): URL {
+    let url: URL
+    try {
+        url = new URL(entryPoint)
+    } catch (e) {
+        throw new PanCloudError(src, 'CONFIG', `Entry point ${entryPoint} is not a valid URL`, { cause: e })
+    }
+    if (url.protocol != 'https:' && url.protocol != 'http:') {
+        throw new PanCloudError(src, 'CONFIG', `Entry point ${entryPoint} must use the https protocol`)
+    }
+    if (url.username || url.password || url.search || url.hash || (url.pathname && url.pathname != '/')) {
+        throw new PanCloudError(src, 'CONFIG', `Entry point ${entryPoint} must be a bare origin (scheme, host and optional port)`)
+    }
+    return url
+}
+
+/**
+ * Checks the entry point and returns its normalized form (the URL origin)
+ * @param entryPoint entry point to be checked
+ * @param src object to be used as source of the exception
+ * @throws `PanCloudError` (`CONFIG`) if it is not a valid bare https origin. Plain `http` entry points are only
+ * accepted for loopback hosts or if registered with the `allowHttp` option
+ */
+export function validateEntryPoint(entryPoint: string, src: PancloudClass = source): EntryPoint {
+    let url = parseEntryPoint(entryPoint, src)
+    if (url.protocol == 'http:' && LOOPBACK_HOSTS.indexOf(url.hostname) == -1 &&
+        !Object.keys(regions).some(r => regions[r].allowHttp && regions[r].entryPoint == url.origin)) {
+        throw new PanCloudError(src, 'CONFIG', `Plain http entry point ${entryPoint} must be registered with the allowHttp option`)
+    }
+    return url.origin
+}
+
+/**
+ * @returns `true` if the entry point passes the `validateEntryPoint()` checks
+ */
+export function isValidEntryPoint(entryPoint: any): entryPoint is EntryPoint {
+    if (typeof entryPoint != 'string') {
+        return false
+    }
+    try {
+        validateEntryPoint(entryPoint)
+        return true
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Adds a region to the registry (or replaces the entry point of an existing one)
+ * @param region region name as provided by Cortex HUB
+ * @param entryPoint API entry point for the region
+ * @returns the normalized entry point
+ */
+export function registerRegion(region: string, entryPoint: string, ops?: RegionOptions): EntryPoint {
+    if (!region) {
+        throw new PanCloudError(source, 'CONFIG', 'Region name can not be empty')
+    }
+    let url = parseEntryPoint(entryPoint, source)
+    let allowHttp = (ops && ops.allowHttp) ? true : false
+    if (url.protocol == 'http:' && !allowHttp && LOOPBACK_HOSTS.indexOf(url.hostname) == -1) {
+        throw new PanCloudError(source, 'CONFIG', `Plain http entry point ${entryPoint} requires the allowHttp option`)
+    }
+    regions[region] = { entryPoint: url.origin, allowHttp: allowHttp }
+    return url.origin
+}
+
+/**
+ * Removes a region from the registry
+ * @returns `true` if the region was registered
+ */
+export function unregisterRegion(region: string): boolean {
+    if (!regions.hasOwnProperty(region)) {
+        return false
+    }
+    delete regions[region]
+    return true
+}
+
+/**
+ * @returns the entry point for the region or `undefined` if the region is not registered
+ */
+export function regionEntryPoint(region: string): EntryPoint | undefined {
+    return (regions.hasOwnProperty(region)) ? regions[region].entryPoint : undefined
+}
+
+/**
+ * @returns the names of all registered regions
+ */
+export function knownRegions(): string[] {
+    return Object.keys(regions)
+}
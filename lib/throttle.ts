@@ -0,0 +1,219 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Client-side rate limiting (token bucket) and concurrency control for the Application Framework requests
+ */
+
+import { PancloudClass } from './common'
+import { Credentials } from './credentials'
+import { CallOptions, callSignal, abortError } from './abort'
+import { PanCloudError } from './error'
+
+/**
+ * Throttle configuration options
+ */
+export interface ThrottleOptions {
+    /**
+     * Maximum sustained amount of requests per second. No rate limit is applied if not provided
+     */
+    rate?: number
+    /**
+     * Amount of requests that can be sent in a burst (token bucket size). Defaults to `max(1, rate)`
+     */
+    burst?: number
+    /**
+     * Maximum number of concurrent (in-flight) requests. Defaults to `Infinity`
+     */
+    maxInFlight?: number
+}
+
+/**
+ * Runtime statistics of a throttle object
+ */
+export interface ThrottleStats {
+    /**
+     * Number of requests allowed through the throttle
+     */
+    acquired: number
+    /**
+     * Number of requests that had to wait in the queue
+     */
+    queued: number
+    /**
+     * Number of requests currently waiting in the queue
+     */
+    waiting: number
+    /**
+     * Number of requests currently in flight
+     */
+    inFlight: number
+    /**
+     * Total amount of milliseconds requests spent waiting in the queue
+     */
+    totalWaitTime: number
+    /**
+     * Longest amount of milliseconds a request spent waiting in the queue
+     */
+    maxWaitTime: number
+}
+
+interface Waiter {
+    since: number
+    resolve: (release: () => void) => void
+}
+
+/**
+ * Token bucket rate limiter combined with a max-in-flight semaphore. Requests are served in FIFO order
+ */
+export class Throttle {
+    static className = 'Throttle'
+    readonly stats: ThrottleStats
+    private rate: number
+    private burst: number
+    private maxInFlight: number
+    private tokens: number
+    private lastRefill: number
+    private queue: Waiter[]
+    private timer?: NodeJS.Timer
+
+    constructor(ops?: ThrottleOptions) {
+        this.rate = (ops && ops.rate) ? ops.rate : 0
+        this.burst = (ops && ops.burst) ? ops.burst : Math.max(1, this.rate)
+        this.maxInFlight = (ops && ops.maxInFlight) ? ops.maxInFlight : Infinity
+        if (this.rate < 0 || this.burst < 1 || this.maxInFlight < 1) {
+            throw new PanCloudError(Throttle, 'CONFIG', 'Throttle rate must be positive and burst and maxInFlight at least 1')
+        }
+        this.tokens = this.burst
+        this.lastRefill = Date.now()
+        this.queue = []
+        this.stats = {
+            acquired: 0,
+            queued: 0,
+            waiting: 0,
+            inFlight: 0,
+            totalWaitTime: 0,
+            maxWaitTime: 0
+        }
+    }
+
+    private refill(): void {
+        if (this.rate) {
+            let now = Date.now()
+            this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.rate / 1000)
+            this.lastRefill = now
+        }
+    }
+
+    private available(): boolean {
+        this.refill()
+        return this.stats.inFlight < this.maxInFlight && (!this.rate || this.tokens >= 1)
+    }
+
+    private grant(): () => void {
+        if (this.rate) {
+            this.tokens--
+        }
+        this.stats.acquired++
+        this.stats.inFlight++
+        let released = false
+        return () => {
+            if (!released) {
+                released = true
+                this.stats.inFlight--
+                this.drain()
+            }
+        }
+    }
+
+    private drain(): void {
+        while (this.queue.length && this.available()) {
+            let waiter = this.queue.shift() as Waiter
+            let waited = Date.now() - waiter.since
+            this.stats.waiting--
+            this.stats.totalWaitTime += waited
+            this.stats.maxWaitTime = Math.max(this.stats.maxWaitTime, waited)
+            waiter.resolve(this.grant())
+        }
+        if (this.queue.length && this.stats.inFlight < this.maxInFlight && !this.timer) {
+            // waiting for the bucket to refill
+            this.timer = setTimeout(() => {
+                this.timer = undefined
+                this.drain()
+            }, Math.ceil((1 - this.tokens) * 1000 / this.rate))
+        }
+    }
+
+    /**
+     * Waits until the request is allowed to be sent
+     * @param source class performing the operation. Its className will be attached to the errors
+     * @param cops the cancellation settings of the operation. The request is removed from the queue if aborted
+     * @returns a function that must be called once the request is completed
+     */
+    acquire(source: PancloudClass, cops?: CallOptions): Promise<() => void> {
+        let e = abortError(source, cops)
+        if (e) {
+            return Promise.reject(e)
+        }
+        if (this.queue.length == 0 && this.available()) {
+            return Promise.resolve(this.grant())
+        }
+        let { signal, release } = callSignal(cops)
+        return new Promise((resolve, reject) => {
+            let waiter: Waiter = {
+                since: Date.now(),
+                resolve: r => {
+                    if (signal) {
+                        signal.removeEventListener('abort', onAbort)
+                    }
+                    release()
+                    resolve(r)
+                }
+            }
+            let onAbort = () => {
+                let idx = this.queue.indexOf(waiter)
+                if (idx >= 0) {
+                    this.queue.splice(idx, 1)
+                    this.stats.waiting--
+                }
+                release()
+                let err = abortError(source, cops)
+                reject((err) ? err : new PanCloudError(source, 'ABORTED', 'Operation aborted'))
+            }
+            if (signal) {
+                signal.addEventListener('abort', onAbort)
+            }
+            this.queue.push(waiter)
+            this.stats.queued++
+            this.stats.waiting++
+            this.drain()
+        })
+    }
+}
+
+let credentialsThrottles = new WeakMap<Credentials, Throttle>()
+
+/**
+ * Returns the throttle shared by all objects bound to the provided credentials. It is created (using the
+ * provided options) the first time it is requested
+ * @param cred credentials object the throttle is bound to
+ * @param ops throttle options (ignored if the credentials object already has a throttle)
+ */
+export function credentialsThrottle(cred: Credentials, ops: ThrottleOptions): Throttle {
+    let throttle = credentialsThrottles.get(cred)
+    if (!throttle) {
+        throttle = new Throttle(ops)
+        credentialsThrottles.set(cred, throttle)
+    }
+    return throttle
+}
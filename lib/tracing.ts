@@ -0,0 +1,110 @@
+// Copyright 2015-2019 Palo Alto Networks, Inc
+// 
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//       http://www.apache.org/licenses/LICENSE-2.0
+// 
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Optional tracing support. The interfaces below follow the shape of the OpenTelemetry API so an OpenTelemetry
+ * tracer can be used directly without the SDK depending on it
+ */
+
+export type SpanAttributeValue = string | number | boolean
+
+export type SpanAttributes = { [key: string]: SpanAttributeValue | undefined }
+
+/**
+ * Same values as the OpenTelemetry `SpanStatusCode` enum
+ */
+export enum SpanStatusCode {
+    UNSET = 0,
+    OK = 1,
+    ERROR = 2
+}
+
+export interface SpanContext {
+    traceId: string
+    spanId: string
+    traceFlags: number
+}
+
+export interface Span {
+    spanContext(): SpanContext
+    setAttribute(key: string, value: SpanAttributeValue): Span
+    setStatus(status: { code: SpanStatusCode, message?: string }): Span
+    recordException(exception: any): void
+    end(): void
+}
+
+export interface Tracer {
+    startSpan(name: string, options?: { attributes?: SpanAttributes }): Span
+}
+
+let globalTracer: Tracer | undefined
+
+/**
+ * Sets the tracer used by all SDK objects not configured with their own one
+ * @param tracer the tracer (i.e. `opentelemetry.trace.getTracer('pancloud')`). `undefined` disables tracing
+ */
+export function setTracer(tracer?: Tracer): void {
+    globalTracer = tracer
+}
+
+/**
+ * @returns the tracer set with `setTracer()` (if any)
+ */
+export function getTracer(): Tracer | undefined {
+    return globalTracer
+}
+
+/**
+ * Runs the operation inside a span (if a tracer is provided). The span status is set based on the outcome of the
+ * operation and ended once it settles
+ * @param tracer the tracer. The operation runs without span if `undefined`
+ * @param name span name
+ * @param attributes initial span attributes (`undefined` values are ignored)
+ * @param operation the operation. It receives the span so it can add attributes
+ */
+export async function withSpan<T>(tracer: Tracer | undefined, name: string, attributes: SpanAttributes,
+    operation: (span?: Span) => Promise<T>): Promise<T> {
+    if (!tracer) {
+        return operation()
+    }
+    let definedAttributes: SpanAttributes = {}
+    Object.entries(attributes).forEach(([k, v]) => {
+        if (v !== undefined) {
+            definedAttributes[k] = v
+        }
+    })
+    let span = tracer.startSpan(name, { attributes: definedAttributes })
+    try {
+        let result = await operation(span)
+        span.setStatus({ code: SpanStatusCode.OK })
+        return result
+    } catch (e) {
+        span.recordException(e)
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (e && e.message) ? e.message : String(e) })
+        throw e
+    } finally {
+        span.end()
+    }
+}
+
+/**
+ * @returns the W3C `traceparent` header value for the span or `undefined` if its context is not valid
+ */
+export function traceparent(span: Span): string | undefined {
+    let ctx = span.spanContext()
+    if (!/^[0-9a-f]{32}$/.test(ctx.traceId) || /^0+$/.test(ctx.traceId) ||
+        !/^[0-9a-f]{16}$/.test(ctx.spanId) || /^0+$/.test(ctx.spanId)) {
+        return undefined
+    }
+    return `00-${ctx.traceId}-${ctx.spanId}-${(ctx.traceFlags & 0xff).toString(16).padStart(2, '0')}`
+}
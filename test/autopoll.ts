@@ -0,0 +1,26 @@
+import { AutoPollScheduler } from 'pancloud-nodejs'
+import { equal, deepEqual } from 'assert'
+
+let scheduler = new AutoPollScheduler(200, { autoPollMaxSleep: 1000, autoPollBackoff: 2 })
+
+let empty = [1, 2, 3, 4, 5].map(() => scheduler.next('empty'))
+console.log(`Empty polls: ${empty.join(', ')} ms`)
+deepEqual(empty, [200, 400, 800, 1000, 1000], 'empty polls back off up to autoPollMaxSleep')
+
+equal(scheduler.next('full'), 0, 'full polls are followed by an immediate poll')
+equal(scheduler.cadence, 200, 'data brings the cadence back to autoPollSleep')
+
+scheduler.next('empty')
+scheduler.next('empty')
+equal(scheduler.next('partial'), 200, 'partial polls wait autoPollSleep')
+equal(scheduler.next('empty', 150), 50, 'the time the service held the poll open is deducted')
+
+scheduler.next('empty')
+scheduler.next('empty')
+scheduler.reset()
+equal(scheduler.cadence, 200, 'reset() goes back to autoPollSleep')
+equal(scheduler.next('empty'), 200)
+
+let fixed = new AutoPollScheduler(200, { autoPollBackoff: 1 })
+deepEqual([1, 2, 3].map(() => fixed.next('empty')), [200, 200, 200], 'a backoff of 1 keeps a fixed cadence')
+console.log('OK')
@@ -0,0 +1,77 @@
+import { defaultCredentialsFactory, LoggingService, nodeTransport, Transport } from 'pancloud-nodejs'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { gzipSync, deflateSync, createGzip } from 'zlib'
+import { equal, deepEqual } from 'assert'
+
+let exp = Math.floor(Date.now() / 1000) + 3600
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`
+
+let hit = (n: number) => ({ _index: 'traffic', _type: 'log', _source: { n: n } })
+let head = '{"queryId":"q1","sequenceNo":0,"queryStatus":"FINISHED","clientParameters":{},' +
+    '"result":{"esResult":{"hits":{"total":2,"hits":['
+let events: string[] = []
+let firstHit: () => void
+let firstHitReceived = new Promise<void>(resolve => firstHit = resolve)
+
+/**
+ * Local Logging Service: `/raw/<encoding>` returns a compressed document and the poll operation sends its two
+ * hits in separate (gzip flushed) chunks, waiting for the client to receive the first one before sending the second
+ */
+function lsServer(): Promise<Server> {
+    let server = createServer(async (req, res) => {
+        let url = req.url as string
+        if (url.startsWith('/raw/')) {
+            let encoding = url.split('/')[2]
+            let body = JSON.stringify({ encoding: encoding, accept: req.headers['accept-encoding'] })
+            res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Encoding': encoding })
+            res.end((encoding == 'gzip') ? gzipSync(body) : deflateSync(body))
+            return
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' })
+        let gz = createGzip()
+        gz.pipe(res)
+        gz.write(`${head}${JSON.stringify(hit(1))},`)
+        gz.flush()
+        await Promise.race([firstHitReceived, new Promise(resolve => setTimeout(resolve, 2000))])
+        events.push('second hit sent')
+        gz.end(`${JSON.stringify(hit(2))}]}}}}`)
+    })
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)))
+}
+
+/**
+ * gzip and deflate responses are decoded and the Logging Service hits are delivered as soon as they are received
+ */
+async function main(): Promise<void> {
+    let server = await lsServer()
+    let base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    let local = nodeTransport({ keepAlive: false })
+    for (let encoding of ['gzip', 'deflate']) {
+        let r = await local.fetch(`${base}/raw/${encoding}`, { method: 'GET' })
+        deepEqual(await r.json(), { encoding: encoding, accept: 'gzip, deflate' })
+    }
+
+    let transport: Transport = {
+        fetch: (url, ops) => local.fetch(`${base}${url.replace(/^https:\/\/[^/]+/, '')}`, ops)
+    }
+    let c = defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken)
+    let ls = LoggingService.factory(c, { transport: transport })
+    let hits: any[] = []
+    let job = await ls.poll('q1', 0, undefined, undefined, h => {
+        events.push(`hit ${h._source.n} received`)
+        hits.push(h)
+        firstHit()
+    })
+    deepEqual(events, ['hit 1 received', 'second hit sent', 'hit 2 received'], 'hits are streamed')
+    deepEqual(hits, [hit(1), hit(2)])
+    equal(job.result.esResult!.hits.hits.length, 0)
+    equal(ls.getLsStats().records, 2)
+    server.close()
+    console.log('OK')
+}
+
+main().catch(e => {
+    console.error(e)
+    process.exitCode = 1
+})
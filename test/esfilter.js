@@ -0,0 +1,54 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+const assert_1 = require("assert");
+let exp = Math.floor(Date.now() / 1000) + 3600;
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`;
+let transport = {
+    fetch: async () => pancloud_nodejs_1.FetchResponse.response(true, '', 200)
+};
+let traffic = pancloud_nodejs_1.esPredicate('panw.traffic');
+/**
+ * Filters feeding the L2 correlation engine: traffic logs with their MAC addresses and the DPI logs
+ */
+let l2Cfg = {
+    filter: [
+        { table: "panw.traffic", where: traffic.and(traffic.gt('extended-traffic-log-mac', 0), traffic.gt('extended-traffic-log-mac-stc', 0)) },
+        { table: "panw.dpi", where: "subtype = 'dns'" }
+    ],
+    flush: false
+};
+let uncataloguedCfg = {
+    filter: [{ table: "panw.traffic", where: "some-new-field > 0" }],
+    flush: false
+};
+async function main() {
+    let c = pancloud_nodejs_1.defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken);
+    let syntaxOnly = await pancloud_nodejs_1.EventService.factory(c, { transport: transport });
+    let strict = await pancloud_nodejs_1.EventService.factory(c, { transport: transport, filterValidation: 'strict' });
+    await syntaxOnly.filterBuilder(l2Cfg);
+    await strict.filterBuilder(l2Cfg);
+    console.log('L2 correlation filters accepted');
+    await syntaxOnly.filterBuilder(uncataloguedCfg);
+    console.log('Fields missing in the catalog are accepted by default');
+    let rejected = false;
+    try {
+        await strict.filterBuilder(uncataloguedCfg);
+    }
+    catch (e) {
+        rejected = pancloud_nodejs_1.isSdkError(e) && e.getErrorCode() == 'CONFIG';
+    }
+    assert_1.ok(rejected, 'strict validation rejects fields missing in the catalog');
+    assert_1.throws(() => traffic.gt('another-new-field', 0), /Unknown field/);
+    pancloud_nodejs_1.registerLogFields('panw.traffic', ['another-new-field']);
+    await strict.filterBuilder({
+        filter: [{ table: "panw.traffic", where: traffic.gt('another-new-field', 0) }],
+        flush: false
+    });
+    console.log('Fields registered at runtime are accepted by the predicate builder');
+    console.log('OK');
+}
+main().catch(e => {
+    console.error(e);
+    process.exitCode = 1;
+});
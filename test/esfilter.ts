@@ -0,0 +1,56 @@
+import { defaultCredentialsFactory, EventService, EsFilterBuilderCfg, esPredicate, registerLogFields, FetchResponse, Transport, isSdkError } from 'pancloud-nodejs'
+import { ok, throws } from 'assert'
+
+let exp = Math.floor(Date.now() / 1000) + 3600
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`
+let transport: Transport = {
+    fetch: async () => FetchResponse.response(true, '', 200)
+}
+
+let traffic = esPredicate('panw.traffic')
+
+/**
+ * Filters feeding the L2 correlation engine: traffic logs with their MAC addresses and the DPI logs
+ */
+let l2Cfg: EsFilterBuilderCfg = {
+    filter: [
+        { table: "panw.traffic", where: traffic.and(traffic.gt('extended-traffic-log-mac', 0), traffic.gt('extended-traffic-log-mac-stc', 0)) },
+        { table: "panw.dpi", where: "subtype = 'dns'" }],
+    flush: false
+}
+
+let uncataloguedCfg: EsFilterBuilderCfg = {
+    filter: [{ table: "panw.traffic", where: "some-new-field > 0" }],
+    flush: false
+}
+
+async function main(): Promise<void> {
+    let c = defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken)
+    let syntaxOnly = await EventService.factory(c, { transport: transport })
+    let strict = await EventService.factory(c, { transport: transport, filterValidation: 'strict' })
+    await syntaxOnly.filterBuilder(l2Cfg)
+    await strict.filterBuilder(l2Cfg)
+    console.log('L2 correlation filters accepted')
+    await syntaxOnly.filterBuilder(uncataloguedCfg)
+    console.log('Fields missing in the catalog are accepted by default')
+    let rejected = false
+    try {
+        await strict.filterBuilder(uncataloguedCfg)
+    } catch (e) {
+        rejected = isSdkError(e) && e.getErrorCode() == 'CONFIG'
+    }
+    ok(rejected, 'strict validation rejects fields missing in the catalog')
+    throws(() => traffic.gt('another-new-field', 0), /Unknown field/)
+    registerLogFields('panw.traffic', ['another-new-field'])
+    await strict.filterBuilder({
+        filter: [{ table: "panw.traffic", where: traffic.gt('another-new-field', 0) }],
+        flush: false
+    })
+    console.log('Fields registered at runtime are accepted by the predicate builder')
+    console.log('OK')
+}
+
+main().catch(e => {
+    console.error(e)
+    process.exitCode = 1
+})
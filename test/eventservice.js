@@ -5,11 +5,16 @@ const eventservice_ack = require("./eventservice_ack");
 const eventservice_nack = require("./eventservice_nack");
 const eventservice_flush = require("./eventservice_flush");
 const eventservice_setfilter = require("./eventservice_setfilter");
+const eventservice_predicate = require("./eventservice_predicate");
+const eventservice_ensurefilter = require("./eventservice_ensurefilter");
 const eventservice_getfilter = require("./eventservice_getfilter");
 const eventservice_poll = require("./eventservice_poll");
 const eventservice_generator = require("./eventservice_generator");
+const eventservice_async_iterator = require("./eventservice_async_iterator");
 const eventservice_async_poll = require("./eventservice_async_poll");
 const eventservice_clearfilter = require("./eventservice_clearfilter");
+const eventservice_close = require("./eventservice_close");
+const eventservice_subscribe = require("./eventservice_subscribe");
 const eventservice_pcap = require("./eventservice_async_pcap");
 const eventservice_corr = require("./eventservice_correlation");
 const examples = {
@@ -17,13 +22,18 @@ const examples = {
     "NACK": eventservice_nack.main,
     "FLUSH": eventservice_flush.main,
     "SET_FILTER": eventservice_setfilter.main,
+    "PREDICATE_FILTER": eventservice_predicate.main,
+    "ENSURE_FILTER": eventservice_ensurefilter.main,
     "GET_FILTER": eventservice_getfilter.main,
     "POLL": eventservice_poll.main,
     "GENERATOR_POLL": eventservice_generator.main,
+    "ASYNC_ITERATOR": eventservice_async_iterator.main,
     "ASYNC_POLL": eventservice_async_poll.main,
     "ASYNC_PCAP": eventservice_pcap.main,
     "L2CORRELATION": eventservice_corr.main,
     "CLEAR_FILTER": eventservice_clearfilter.main,
+    "GRACEFUL_SHUTDOWN": eventservice_close.main,
+    "SUBSCRIBE": eventservice_subscribe.main,
 };
 if (process.argv.length < 3 || !Object.keys(examples).includes(process.argv[2])) {
     console.log("Usage: 'node example/credential <example>' where example is one of the following keywords");
@@ -3,11 +3,16 @@ import * as eventservice_ack from './eventservice_ack'
 import * as eventservice_nack from './eventservice_nack'
 import * as eventservice_flush from './eventservice_flush'
 import * as eventservice_setfilter from './eventservice_setfilter'
+import * as eventservice_predicate from './eventservice_predicate'
+import * as eventservice_ensurefilter from './eventservice_ensurefilter'
 import * as eventservice_getfilter from './eventservice_getfilter'
 import * as eventservice_poll from './eventservice_poll'
 import * as eventservice_generator from './eventservice_generator'
+import * as eventservice_async_iterator from './eventservice_async_iterator'
 import * as eventservice_async_poll from './eventservice_async_poll'
 import * as eventservice_clearfilter from './eventservice_clearfilter'
+import * as eventservice_close from './eventservice_close'
+import * as eventservice_subscribe from './eventservice_subscribe'
 import * as eventservice_pcap from './eventservice_async_pcap'
 import * as eventservice_corr from './eventservice_correlation'
 
@@ -16,13 +21,18 @@ const examples: { [i: string]: () => Promise<void> } = {
     "NACK": eventservice_nack.main,
     "FLUSH": eventservice_flush.main,
     "SET_FILTER": eventservice_setfilter.main,
+    "PREDICATE_FILTER": eventservice_predicate.main,
+    "ENSURE_FILTER": eventservice_ensurefilter.main,
     "GET_FILTER": eventservice_getfilter.main,
     "POLL": eventservice_poll.main,
     "GENERATOR_POLL": eventservice_generator.main,
+    "ASYNC_ITERATOR": eventservice_async_iterator.main,
     "ASYNC_POLL": eventservice_async_poll.main,
     "ASYNC_PCAP": eventservice_pcap.main,
     "L2CORRELATION": eventservice_corr.main,
     "CLEAR_FILTER": eventservice_clearfilter.main,
+    "GRACEFUL_SHUTDOWN": eventservice_close.main,
+    "SUBSCRIBE": eventservice_subscribe.main,
 }
 
 if (process.argv.length < 3 || !Object.keys(examples).includes(process.argv[2])) {
@@ -0,0 +1,48 @@
+"use strict";
+var __asyncValues = (this && this.__asyncValues) || function (o) {
+    if (!Symbol.asyncIterator) throw new TypeError("Symbol.asyncIterator is not defined.");
+    var m = o[Symbol.asyncIterator], i;
+    return m ? m.call(o) : (o = typeof __values === "function" ? __values(o) : o[Symbol.iterator](), i = {}, verb("next"), verb("throw"), verb("return"), i[Symbol.asyncIterator] = function () { return this; }, i);
+    function verb(n) { i[n] = o[n] && function (v) { return new Promise(function (resolve, reject) { v = o[n](v), settle(resolve, reject, v.done, v.value); }); }; }
+    function settle(resolve, reject, d, v) { Promise.resolve(v).then(function(v) { resolve({ value: v, done: d }); }, reject); }
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+let builderCfg = {
+    filter: [
+        { table: "panw.traffic", timeout: 1000, batchSize: 8000 },
+        { table: "panw.dpi", timeout: 1000, batchSize: 8000 },
+        { table: "panw.threat", where: 'risk-of-app > 3' }
+    ],
+    flush: false,
+    filterOptions: {}
+};
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+async function main() {
+    var e_1, _a;
+    let c = await pancloud_nodejs_1.autoCredentials();
+    let es = await pancloud_nodejs_1.EventService.factory(c);
+    await es.filterBuilder(builderCfg);
+    let iterations = 10;
+    try {
+        for (var es_1 = __asyncValues(es), es_1_1; es_1_1 = await es_1.next(), !es_1_1.done;) {
+            let e = es_1_1.value;
+            console.log(`${e.event.length} ${e.logType} events`);
+            if (--iterations == 0)
+                break;
+        }
+    }
+    catch (e_1_1) { e_1 = { error: e_1_1 }; }
+    finally {
+        try {
+            if (es_1_1 && !es_1_1.done && (_a = es_1.return)) await _a.call(es_1);
+        }
+        finally { if (e_1) throw e_1.error; }
+    }
+    await es.clearFilter();
+    console.log("Event Service stats");
+    console.log(JSON.stringify(es.getEsStats(), undefined, " "));
+}
+exports.main = main;
@@ -0,0 +1,27 @@
+import { autoCredentials, EventService, EsFilterBuilderCfg } from 'pancloud-nodejs'
+
+let builderCfg: EsFilterBuilderCfg = {
+    filter: [
+        { table: "panw.traffic", timeout: 1000, batchSize: 8000 },
+        { table: "panw.dpi", timeout: 1000, batchSize: 8000 },
+        { table: "panw.threat", where: 'risk-of-app > 3' }],
+    flush: false,
+    filterOptions: {}
+}
+
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+export async function main(): Promise<void> {
+    let c = await autoCredentials()
+    let es = await EventService.factory(c)
+    await es.filterBuilder(builderCfg)
+    let iterations = 10
+    for await (let e of es) {
+        console.log(`${e.event.length} ${e.logType} events`)
+        if (--iterations == 0) break
+    }
+    await es.clearFilter()
+    console.log("Event Service stats")
+    console.log(JSON.stringify(es.getEsStats(), undefined, " "))
+}
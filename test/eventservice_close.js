@@ -0,0 +1,37 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+let builderCfg = {
+    filter: [
+        { table: "panw.traffic", timeout: 1000 }
+    ],
+    filterOptions: {
+        callBack: {
+            event: receiver
+        },
+        poolOptions: {
+            ack: true,
+            pollTimeout: 1000
+        }
+    }
+};
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+async function main() {
+    let c = await pancloud_nodejs_1.autoCredentials();
+    let es = await pancloud_nodejs_1.EventService.factory(c);
+    await es.filterBuilder(builderCfg);
+    pancloud_nodejs_1.closeOnSignals([es], { drain: true, timeout: 10000 });
+    console.log("Set the filter and registered the async event receiver. Press CTRL+C to close the service");
+}
+exports.main = main;
+let eventCounter = 0;
+async function receiver(e) {
+    if (e.message) {
+        eventCounter += e.message.length;
+    }
+    // slow receiver: the in-flight ones are awaited by close()
+    await new Promise(resolve => setTimeout(resolve, 500));
+    process.stdout.write(`${eventCounter}...`);
+}
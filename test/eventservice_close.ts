@@ -0,0 +1,37 @@
+import { autoCredentials, EventService, EsFilterBuilderCfg, EmitterInterface, closeOnSignals } from 'pancloud-nodejs'
+
+let builderCfg: EsFilterBuilderCfg = {
+    filter: [
+        { table: "panw.traffic", timeout: 1000 }],
+    filterOptions: {
+        callBack: {
+            event: receiver
+        },
+        poolOptions: {
+            ack: true,
+            pollTimeout: 1000
+        }
+    }
+}
+
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+export async function main(): Promise<void> {
+    let c = await autoCredentials()
+    let es = await EventService.factory(c)
+    await es.filterBuilder(builderCfg)
+    closeOnSignals([es], { drain: true, timeout: 10000 })
+    console.log("Set the filter and registered the async event receiver. Press CTRL+C to close the service")
+}
+
+let eventCounter = 0
+
+async function receiver(e: EmitterInterface<any[]>): Promise<void> {
+    if (e.message) {
+        eventCounter += e.message.length
+    }
+    // slow receiver: the in-flight ones are awaited by close()
+    await new Promise(resolve => setTimeout(resolve, 500))
+    process.stdout.write(`${eventCounter}...`)
+}
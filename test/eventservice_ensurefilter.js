@@ -0,0 +1,26 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+let builderCfg = {
+    filter: [
+        { table: "panw.traffic", where: "app = 'ssl'", timeout: 1000 },
+        { table: "panw.threat", batchSize: 20 }
+    ],
+    filterOptions: {}
+};
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+async function main() {
+    let c = await pancloud_nodejs_1.autoCredentials();
+    let es = await pancloud_nodejs_1.EventService.factory(c);
+    let diff = await es.ensureFilters(builderCfg);
+    if (!diff.changed) {
+        console.log('Filter already up to date');
+        return;
+    }
+    diff.added.forEach(t => console.log(`Added filter for ${t}`));
+    diff.removed.forEach(t => console.log(`Removed filter for ${t}`));
+    diff.modified.forEach(m => console.log(`Changed ${m.table} ${m.attribute}: ${m.current} -> ${m.desired}`));
+}
+exports.main = main;
@@ -0,0 +1,24 @@
+import { autoCredentials, EventService, EsFilterBuilderCfg } from 'pancloud-nodejs'
+
+let builderCfg: EsFilterBuilderCfg = {
+    filter: [
+        { table: "panw.traffic", where: "app = 'ssl'", timeout: 1000 },
+        { table: "panw.threat", batchSize: 20 }],
+    filterOptions: {}
+}
+
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+export async function main(): Promise<void> {
+    let c = await autoCredentials()
+    let es = await EventService.factory(c)
+    let diff = await es.ensureFilters(builderCfg)
+    if (!diff.changed) {
+        console.log('Filter already up to date')
+        return
+    }
+    diff.added.forEach(t => console.log(`Added filter for ${t}`))
+    diff.removed.forEach(t => console.log(`Removed filter for ${t}`))
+    diff.modified.forEach(m => console.log(`Changed ${m.table} ${m.attribute}: ${m.current} -> ${m.desired}`))
+}
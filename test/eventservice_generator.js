@@ -5,7 +5,7 @@ let builderCfg = {
     filter: [
         { table: "panw.traffic", timeout: 1000, batchSize: 8000 },
         { table: "panw.dpi", timeout: 1000, batchSize: 8000 },
-        { table: "panw.threat", where: 'where risk-of-app > 3' }
+        { table: "panw.threat", where: 'risk-of-app > 3' }
     ],
     flush: false,
     filterOptions: {}
@@ -18,7 +18,7 @@ async function main() {
     let es = await pancloud_nodejs_1.EventService.factory(c);
     await es.filterBuilder(builderCfg);
     let iterations = 10;
-    for (let prom of es) {
+    for (let prom of es.polls()) {
         if (iterations-- == 0)
             break;
         let response = await prom;
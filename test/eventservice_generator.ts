@@ -4,7 +4,7 @@ let builderCfg: EsFilterBuilderCfg = {
     filter: [
         { table: "panw.traffic", timeout: 1000, batchSize: 8000 },
         { table: "panw.dpi", timeout: 1000, batchSize: 8000 },
-        { table: "panw.threat", where: 'where risk-of-app > 3' }],
+        { table: "panw.threat", where: 'risk-of-app > 3' }],
     flush: false,
     filterOptions: {}
 }
@@ -17,7 +17,7 @@ export async function main(): Promise<void> {
     let es = await EventService.factory(c)
     await es.filterBuilder(builderCfg)
     let iterations = 10
-    for (let prom of es) {
+    for (let prom of es.polls()) {
         if (iterations-- == 0) break
         let response = await prom
         console.log(`Processed iteration ${iterations}`)
@@ -0,0 +1,28 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+let threat = pancloud_nodejs_1.esPredicate('panw.threat');
+let traffic = pancloud_nodejs_1.esPredicate('panw.traffic');
+let builderCfg = {
+    filter: [
+        { table: "panw.traffic", where: traffic.and(traffic.eq('app', 'ssl'), traffic.ge('bytes', 1000000)) },
+        { table: "panw.threat", where: threat.or(threat.gt('risk-of-app', 3), threat.eq('severity', 'critical')) }
+    ],
+    flush: false,
+    filterOptions: {}
+};
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+async function main() {
+    builderCfg.filter.forEach(f => {
+        if (f.where && typeof f.where != 'string') {
+            console.log(`${f.table}: ${pancloud_nodejs_1.renderPredicate(f.where)}`);
+        }
+    });
+    let c = await pancloud_nodejs_1.autoCredentials();
+    let es = await pancloud_nodejs_1.EventService.factory(c);
+    await es.filterBuilder(builderCfg);
+    console.log('Successfully set a new filter');
+}
+exports.main = main;
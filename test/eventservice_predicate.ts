@@ -0,0 +1,27 @@
+import { autoCredentials, EventService, EsFilterBuilderCfg, esPredicate, renderPredicate } from 'pancloud-nodejs'
+
+let threat = esPredicate('panw.threat')
+let traffic = esPredicate('panw.traffic')
+
+let builderCfg: EsFilterBuilderCfg = {
+    filter: [
+        { table: "panw.traffic", where: traffic.and(traffic.eq('app', 'ssl'), traffic.ge('bytes', 1000000)) },
+        { table: "panw.threat", where: threat.or(threat.gt('risk-of-app', 3), threat.eq('severity', 'critical')) }],
+    flush: false,
+    filterOptions: {}
+}
+
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+export async function main(): Promise<void> {
+    builderCfg.filter.forEach(f => {
+        if (f.where && typeof f.where != 'string') {
+            console.log(`${f.table}: ${renderPredicate(f.where)}`)
+        }
+    })
+    let c = await autoCredentials()
+    let es = await EventService.factory(c)
+    await es.filterBuilder(builderCfg)
+    console.log('Successfully set a new filter')
+}
@@ -5,7 +5,7 @@ let builderCfg = {
     filter: [
         { table: "panw.traffic", timeout: 1000, batchSize: 8000 },
         { table: "panw.dpi", timeout: 1000, batchSize: 8000 },
-        { table: "panw.threat", where: 'where risk-of-app > 3' }
+        { table: "panw.threat", where: 'risk-of-app > 3' }
     ],
     flush: false,
     filterOptions: {}
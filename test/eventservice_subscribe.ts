@@ -0,0 +1,29 @@
+import { autoCredentials, EventService, EsFilterBuilderCfg } from 'pancloud-nodejs'
+
+let builderCfg: EsFilterBuilderCfg = {
+    filter: [
+        { table: "panw.traffic", timeout: 1000 },
+        { table: "panw.threat", timeout: 1000 }],
+    filterOptions: {}
+}
+
+/**
+ * Use the enventservice.js launcher to call this main() function
+ */
+export async function main(): Promise<void> {
+    let c = await autoCredentials()
+    let es = await EventService.factory(c)
+    let traffic = 0
+    let unsubscribe = es.on('event', e => {
+        traffic += (e.message) ? e.message.length : 0
+    }, { logType: 'panw.traffic' })
+    es.once('event', e => console.log(`First threat event received from ${e.source}`), { logType: 'panw.threat' })
+    es.on('error', err => console.log(`Autopoll error: ${err.getErrorCode()} ${err.getErrorMessage()}`))
+    await es.filterBuilder(builderCfg)
+    es.resume()
+    console.log("Set the filter and subscribed to the traffic and threat events")
+    await new Promise(resolve => setTimeout(resolve, 60000))
+    unsubscribe()
+    console.log(`\n1 minute timer expired. Received ${traffic} traffic events`)
+    await es.close()
+}
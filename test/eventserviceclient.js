@@ -0,0 +1,102 @@
+"use strict";
+var __asyncValues = (this && this.__asyncValues) || function (o) {
+    if (!Symbol.asyncIterator) throw new TypeError("Symbol.asyncIterator is not defined.");
+    var m = o[Symbol.asyncIterator], i;
+    return m ? m.call(o) : (o = typeof __values === "function" ? __values(o) : o[Symbol.iterator](), i = {}, verb("next"), verb("throw"), verb("return"), i[Symbol.asyncIterator] = function () { return this; }, i);
+    function verb(n) { i[n] = o[n] && function (v) { return new Promise(function (resolve, reject) { v = o[n](v), settle(resolve, reject, v.done, v.value); }); }; }
+    function settle(resolve, reject, d, v) { Promise.resolve(v).then(function(v) { resolve({ value: v, done: d }); }, reject); }
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+const stream_1 = require("stream");
+const assert_1 = require("assert");
+let exp = Math.floor(Date.now() / 1000) + 3600;
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`;
+/**
+ * Mock channel: polls return batches in sequence, `ACK` commits the ones delivered and `NACK` rewinds to the first
+ * batch not acknowledged yet
+ */
+let committed = 0;
+let inFlight = 0;
+let transport = {
+    fetch: async (url) => {
+        let op = url.split('/').pop();
+        if (op == 'poll') {
+            let batch = committed + inFlight++;
+            return pancloud_nodejs_1.FetchResponse.response(true, JSON.stringify([{ logType: 'panw.traffic', event: [{ batch: batch }] }]), 200);
+        }
+        if (op == 'ack') {
+            committed += inFlight;
+            inFlight = 0;
+        }
+        else if (op == 'nack') {
+            inFlight = 0;
+        }
+        return pancloud_nodejs_1.FetchResponse.response(true, '', 200);
+    }
+};
+let cfg = { filter: [{ table: 'panw.traffic' }], flush: false, flushOnDestroy: false };
+/**
+ * Batches are acknowledged when the next one is requested, so a plain `for await` loop goes past the first batch
+ */
+async function autoAck(es) {
+    var e_1, _a;
+    let client = new pancloud_nodejs_1.EventServiceClient(es, cfg);
+    let processed = [];
+    try {
+        for (var client_1 = __asyncValues(client), client_1_1; client_1_1 = await client_1.next(), !client_1_1.done;) {
+            let batch = client_1_1.value;
+            processed.push(batch[0].event[0].batch);
+            if (processed.length == 3) {
+                break;
+            }
+        }
+    }
+    catch (e_1_1) { e_1 = { error: e_1_1 }; }
+    finally {
+        try {
+            if (client_1_1 && !client_1_1.done && (_a = client_1.return)) await _a.call(client_1);
+        }
+        finally { if (e_1) throw e_1.error; }
+    }
+    assert_1.deepEqual(processed, [0, 1, 2]);
+    assert_1.equal(committed, 2, 'the batch being processed when the loop is left is not acknowledged');
+}
+/**
+ * With `manualAck` a batch that was read but not confirmed with `ack()` when the pipe is destroyed is delivered again
+ */
+async function main() {
+    let c = pancloud_nodejs_1.defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken);
+    let es = await pancloud_nodejs_1.EventService.factory(c, { transport: transport, autoPollSleep: 10 });
+    await autoAck(es);
+    committed = 0;
+    let client = new pancloud_nodejs_1.EventServiceClient(es, Object.assign({}, cfg, { manualAck: true }));
+    let processed = [];
+    await new Promise(resolve => {
+        client.on('close', resolve);
+        client.pipe(new stream_1.Writable({
+            objectMode: true,
+            write: (batch, _, callback) => {
+                let id = batch[0].event[0].batch;
+                if (id == 2) {
+                    client.destroy();
+                    return;
+                }
+                processed.push(id);
+                client.ack();
+                callback();
+            }
+        }));
+    });
+    assert_1.deepEqual(processed, [0, 1]);
+    assert_1.equal(committed, 2, 'only the confirmed batches are acknowledged');
+    let again = new pancloud_nodejs_1.EventServiceClient(es, Object.assign({}, cfg, { manualAck: true }));
+    let batch = await new Promise(resolve => again.once('data', resolve));
+    assert_1.equal(batch[0].event[0].batch, 2, 'the interrupted batch is delivered again');
+    again.destroy();
+    console.log('OK');
+}
+main().catch(e => {
+    console.error(e);
+    process.exitCode = 1;
+});
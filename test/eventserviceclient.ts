@@ -0,0 +1,87 @@
+import { defaultCredentialsFactory, EventService, EventServiceClient, EsFilterBuilderCfg, FetchResponse, Transport } from 'pancloud-nodejs'
+import { Writable } from 'stream'
+import { equal, deepEqual } from 'assert'
+
+let exp = Math.floor(Date.now() / 1000) + 3600
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`
+
+/**
+ * Mock channel: polls return batches in sequence, `ACK` commits the ones delivered and `NACK` rewinds to the first
+ * batch not acknowledged yet
+ */
+let committed = 0
+let inFlight = 0
+let transport: Transport = {
+    fetch: async url => {
+        let op = url.split('/').pop()
+        if (op == 'poll') {
+            let batch = committed + inFlight++
+            return FetchResponse.response(true, JSON.stringify([{ logType: 'panw.traffic', event: [{ batch: batch }] }]), 200)
+        }
+        if (op == 'ack') {
+            committed += inFlight
+            inFlight = 0
+        } else if (op == 'nack') {
+            inFlight = 0
+        }
+        return FetchResponse.response(true, '', 200)
+    }
+}
+
+let cfg: EsFilterBuilderCfg & { flushOnDestroy: boolean } = { filter: [{ table: 'panw.traffic' }], flush: false, flushOnDestroy: false }
+
+/**
+ * Batches are acknowledged when the next one is requested, so a plain `for await` loop goes past the first batch
+ */
+async function autoAck(es: EventService): Promise<void> {
+    let client = new EventServiceClient(es, cfg)
+    let processed: number[] = []
+    for await (let batch of client) {
+        processed.push(batch[0].event[0].batch)
+        if (processed.length == 3) {
+            break
+        }
+    }
+    deepEqual(processed, [0, 1, 2])
+    equal(committed, 2, 'the batch being processed when the loop is left is not acknowledged')
+}
+
+/**
+ * With `manualAck` a batch that was read but not confirmed with `ack()` when the pipe is destroyed is delivered again
+ */
+async function main(): Promise<void> {
+    let c = defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken)
+    let es = await EventService.factory(c, { transport: transport, autoPollSleep: 10 })
+    await autoAck(es)
+    committed = 0
+    let client = new EventServiceClient(es, { ...cfg, manualAck: true })
+    let processed: number[] = []
+    await new Promise(resolve => {
+        client.on('close', resolve)
+        client.pipe(new Writable({
+            objectMode: true,
+            write: (batch: any[], _, callback) => {
+                let id = batch[0].event[0].batch
+                if (id == 2) {
+                    client.destroy()
+                    return
+                }
+                processed.push(id)
+                client.ack()
+                callback()
+            }
+        }))
+    })
+    deepEqual(processed, [0, 1])
+    equal(committed, 2, 'only the confirmed batches are acknowledged')
+    let again = new EventServiceClient(es, { ...cfg, manualAck: true })
+    let batch: any[] = await new Promise(resolve => again.once('data', resolve))
+    equal(batch[0].event[0].batch, 2, 'the interrupted batch is delivered again')
+    again.destroy()
+    console.log('OK')
+}
+
+main().catch(e => {
+    console.error(e)
+    process.exitCode = 1
+})
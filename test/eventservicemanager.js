@@ -0,0 +1,92 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+const assert_1 = require("assert");
+let exp = Math.floor(Date.now() / 1000) + 3600;
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`;
+/**
+ * Mock Event Service: the **fast** channel always returns events, the **slow** one holds each poll for 500 ms and
+ * the **broken** one fails
+ */
+let transport = {
+    fetch: async (url) => {
+        let [channelId, op] = url.split('/').slice(-2);
+        if (op != 'poll') {
+            return pancloud_nodejs_1.FetchResponse.response(true, '', 200);
+        }
+        if (channelId == 'broken') {
+            return pancloud_nodejs_1.FetchResponse.response(false, 'boom', 500);
+        }
+        if (channelId == 'slow') {
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+        return pancloud_nodejs_1.FetchResponse.response(true, JSON.stringify([{ logType: 'panw.traffic', event: [{ channel: channelId }] }]), 200);
+    }
+};
+function channelCfg(received, channelId) {
+    return {
+        filter: [{ table: 'panw.traffic' }],
+        filterOptions: {
+            callBack: {
+                event: e => {
+                    received[channelId] = (received[channelId] || 0) + e.message.length;
+                }
+            }
+        }
+    };
+}
+/**
+ * Logger that keeps the messages of the manager
+ */
+let managerLogs = [];
+let logger = {
+    level: pancloud_nodejs_1.LogLevel.INFO,
+    error: () => undefined,
+    alert: () => undefined,
+    info: (source, message) => {
+        if (source.className == 'EventServiceManager') {
+            managerLogs.push(message);
+        }
+    },
+    debug: () => undefined
+};
+/**
+ * Channels are polled independently, errors reach the failing channel, removed channels are closed and the manager
+ * logs through the configured logger
+ */
+async function main() {
+    let c = pancloud_nodejs_1.defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken);
+    let manager = pancloud_nodejs_1.EventServiceManager.factory(c, {
+        transport: transport, autoPollSleep: 10, retryPolicy: { maxAttempts: 1 }, logger: logger
+    });
+    let received = {};
+    let errors = [];
+    await manager.addChannel('slow', channelCfg(received, 'slow'));
+    await manager.addChannel('fast', channelCfg(received, 'fast'));
+    let broken = await manager.addChannel('broken', channelCfg(received, 'broken'));
+    broken.on('error', err => {
+        errors.push(err);
+    });
+    assert_1.deepEqual(manager.getChannels(), ['slow', 'fast', 'broken']);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert_1.ok(received['fast'] > 5, `the slow channel does not hold the fast one back (${received['fast']} events)`);
+    assert_1.ok(!received['slow'], 'the slow channel is still waiting for its first poll');
+    assert_1.ok(errors.length > 0 && errors.every(e => e.getSourceClass() == 'EventService'), 'poll errors reach the channel error topic');
+    let stats = manager.getStats();
+    assert_1.equal(stats.total.polls, Object.keys(stats.channels).reduce((acc, id) => acc + stats.channels[id].polls, 0));
+    assert_1.equal(stats.total.eventsEmitted, Object.keys(stats.channels).reduce((acc, id) => acc + stats.channels[id].eventsEmitted, 0));
+    await manager.removeChannel('broken');
+    assert_1.ok(broken.isClosed(), 'removed channels are closed');
+    assert_1.equal(manager.getChannel('broken'), undefined);
+    let fast = manager.getChannel('fast');
+    await manager.close();
+    assert_1.ok(fast.isClosed(), 'closing the manager closes its channels');
+    assert_1.deepEqual(manager.getChannels(), []);
+    assert_1.equal(managerLogs[managerLogs.length - 1], 'Closed 2 channels');
+    console.log(JSON.stringify(stats.total));
+    console.log('OK');
+}
+main().catch(e => {
+    console.error(e);
+    process.exit(1);
+});
@@ -0,0 +1,99 @@
+import { defaultCredentialsFactory, EventServiceManager, EsFilterBuilderCfg, FetchResponse, Transport, SdkErr, PancloudLogger, LogLevel } from 'pancloud-nodejs'
+import { ok, equal, deepEqual } from 'assert'
+
+let exp = Math.floor(Date.now() / 1000) + 3600
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`
+
+/**
+ * Mock Event Service: the **fast** channel always returns events, the **slow** one holds each poll for 500 ms and
+ * the **broken** one fails
+ */
+let transport: Transport = {
+    fetch: async url => {
+        let [channelId, op] = url.split('/').slice(-2)
+        if (op != 'poll') {
+            return FetchResponse.response(true, '', 200)
+        }
+        if (channelId == 'broken') {
+            return FetchResponse.response(false, 'boom', 500)
+        }
+        if (channelId == 'slow') {
+            await new Promise(resolve => setTimeout(resolve, 500))
+        }
+        return FetchResponse.response(true, JSON.stringify([{ logType: 'panw.traffic', event: [{ channel: channelId }] }]), 200)
+    }
+}
+
+function channelCfg(received: { [channelId: string]: number }, channelId: string): EsFilterBuilderCfg {
+    return {
+        filter: [{ table: 'panw.traffic' }],
+        filterOptions: {
+            callBack: {
+                event: e => {
+                    received[channelId] = (received[channelId] || 0) + e.message!.length
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Logger that keeps the messages of the manager
+ */
+let managerLogs: string[] = []
+let logger: PancloudLogger = {
+    level: LogLevel.INFO,
+    error: () => undefined,
+    alert: () => undefined,
+    info: (source, message) => {
+        if (source.className == 'EventServiceManager') {
+            managerLogs.push(message)
+        }
+    },
+    debug: () => undefined
+}
+
+/**
+ * Channels are polled independently, errors reach the failing channel, removed channels are closed and the manager
+ * logs through the configured logger
+ */
+async function main(): Promise<void> {
+    let c = defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken)
+    let manager = EventServiceManager.factory(c, {
+        transport: transport, autoPollSleep: 10, retryPolicy: { maxAttempts: 1 }, logger: logger
+    })
+    let received: { [channelId: string]: number } = {}
+    let errors: SdkErr[] = []
+    await manager.addChannel('slow', channelCfg(received, 'slow'))
+    await manager.addChannel('fast', channelCfg(received, 'fast'))
+    let broken = await manager.addChannel('broken', channelCfg(received, 'broken'))
+    broken.on('error', err => {
+        errors.push(err)
+    })
+    deepEqual(manager.getChannels(), ['slow', 'fast', 'broken'])
+    await new Promise(resolve => setTimeout(resolve, 300))
+    ok(received['fast'] > 5, `the slow channel does not hold the fast one back (${received['fast']} events)`)
+    ok(!received['slow'], 'the slow channel is still waiting for its first poll')
+    ok(errors.length > 0 && errors.every(e => e.getSourceClass() == 'EventService'), 'poll errors reach the channel error topic')
+
+    let stats = manager.getStats()
+    equal(stats.total.polls, Object.keys(stats.channels).reduce((acc, id) => acc + stats.channels[id].polls, 0))
+    equal(stats.total.eventsEmitted, Object.keys(stats.channels).reduce((acc, id) => acc + stats.channels[id].eventsEmitted, 0))
+
+    await manager.removeChannel('broken')
+    ok(broken.isClosed(), 'removed channels are closed')
+    equal(manager.getChannel('broken'), undefined)
+
+    let fast = manager.getChannel('fast')!
+    await manager.close()
+    ok(fast.isClosed(), 'closing the manager closes its channels')
+    deepEqual(manager.getChannels(), [])
+    equal(managerLogs[managerLogs.length - 1], 'Closed 2 channels')
+    console.log(JSON.stringify(stats.total))
+    console.log('OK')
+}
+
+main().catch(e => {
+    console.error(e)
+    process.exit(1)
+})
@@ -0,0 +1,58 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+const assert_1 = require("assert");
+/**
+ * Credentials that issue a new access token (`token-<n>`) on each refresh
+ */
+class RotatingCredentials extends pancloud_nodejs_1.Credentials {
+    constructor() {
+        super('https://api.us.paloaltonetworks.com');
+        this.refreshes = 0;
+        this.issue();
+    }
+    issue() {
+        let exp = Math.floor(Date.now() / 1000) + 3600;
+        let claim = Buffer.from(JSON.stringify({ exp: exp, n: this.refreshes })).toString('base64');
+        this.setAccessToken(`e30.${claim}.c2ln`, exp);
+    }
+    async retrieveAccessToken() {
+        this.refreshes++;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        this.issue();
+    }
+}
+/**
+ * Mock Event Service that rejects the first access token
+ */
+let cred = new RotatingCredentials();
+let rejected = '';
+let unauthorized = 0;
+let transport = {
+    fetch: async (_, ops) => {
+        let auth = (ops.headers) ? ops.headers['Authorization'] : '';
+        if (auth == `Bearer ${rejected}`) {
+            unauthorized++;
+            await new Promise(resolve => setTimeout(resolve, 10));
+            return pancloud_nodejs_1.FetchResponse.response(false, 'unauthorized', 401);
+        }
+        return pancloud_nodejs_1.FetchResponse.response(true, JSON.stringify({ filters: [] }), 200);
+    }
+};
+/**
+ * Concurrent requests rejected with HTTP 401 share a single forced refresh and are replayed with the new token
+ */
+async function main() {
+    rejected = await cred.getAccessToken();
+    let channels = ['c1', 'c2', 'c3'].map(channelId => pancloud_nodejs_1.EventService.factory(cred, { transport: transport, channelId: channelId }));
+    await Promise.all(channels.concat(channels).map(es => es.getFilters()));
+    assert_1.equal(unauthorized, 6, 'all requests used the rejected token');
+    assert_1.equal(cred.refreshes, 1, 'a single refresh is performed');
+    assert_1.ok(await cred.getAccessToken() != rejected);
+    assert_1.equal(channels.reduce((acc, es) => acc + es.getEsStats().forcedRefreshes, 0), 1, 'only the refresh trigger counts it');
+    console.log('OK');
+}
+main().catch(e => {
+    console.error(e);
+    process.exitCode = 1;
+});
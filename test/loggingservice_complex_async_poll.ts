@@ -25,7 +25,7 @@ let builderCfg: EsFilterBuilderCfg = {
     filter: [
         { table: "panw.traffic", timeout: 1000 },
         { table: "panw.dpi", timeout: 1000 },
-        { table: "panw.threat", where: 'where risk-of-app > 3' }],
+        { table: "panw.threat", where: 'risk-of-app > 3' }],
     filterOptions: {
         callBack: {
             event: receiver
@@ -0,0 +1,32 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+const assert_1 = require("assert");
+let exp = Math.floor(Date.now() / 1000) + 3600;
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`;
+let transport = {
+    fetch: async () => pancloud_nodejs_1.FetchResponse.response(true, JSON.stringify({ result: { count: 5 } }), 200)
+};
+/**
+ * Only the objects configured with a registry report into it and they leave it once closed
+ */
+async function main() {
+    let c = pancloud_nodejs_1.defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken);
+    let registry = new pancloud_nodejs_1.MetricsRegistry('test');
+    let reporting = await pancloud_nodejs_1.DirectorySyncService.factory(c, { transport: transport, metrics: registry });
+    let silent = await pancloud_nodejs_1.DirectorySyncService.factory(c, { transport: transport });
+    await reporting.count('a.b', 'users');
+    await silent.count('a.b', 'users');
+    let text = registry.render();
+    console.log(text);
+    assert_1.ok(text.includes('test_requests_total'), 'the configured service reports its requests');
+    assert_1.ok(text.split('\n').filter(l => l.startsWith('test_stats_count_calls')).length == 1, 'only the configured service reports its statistics');
+    assert_1.ok(!pancloud_nodejs_1.defaultRegistry.render().includes('pancloud_stats_'), 'services are not registered by default');
+    await reporting.close();
+    assert_1.ok(!registry.render().includes('test_stats_'), 'closed services leave the registry');
+    console.log('OK');
+}
+main().catch(e => {
+    console.error(e);
+    process.exitCode = 1;
+});
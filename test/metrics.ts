@@ -0,0 +1,34 @@
+import { defaultCredentialsFactory, DirectorySyncService, MetricsRegistry, defaultRegistry, FetchResponse, Transport } from 'pancloud-nodejs'
+import { ok } from 'assert'
+
+let exp = Math.floor(Date.now() / 1000) + 3600
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`
+let transport: Transport = {
+    fetch: async () => FetchResponse.response(true, JSON.stringify({ result: { count: 5 } }), 200)
+}
+
+/**
+ * Only the objects configured with a registry report into it and they leave it once closed
+ */
+async function main(): Promise<void> {
+    let c = defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken)
+    let registry = new MetricsRegistry('test')
+    let reporting = await DirectorySyncService.factory(c, { transport: transport, metrics: registry })
+    let silent = await DirectorySyncService.factory(c, { transport: transport })
+    await reporting.count('a.b', 'users')
+    await silent.count('a.b', 'users')
+    let text = registry.render()
+    console.log(text)
+    ok(text.includes('test_requests_total'), 'the configured service reports its requests')
+    ok(text.split('\n').filter(l => l.startsWith('test_stats_count_calls')).length == 1,
+        'only the configured service reports its statistics')
+    ok(!defaultRegistry.render().includes('pancloud_stats_'), 'services are not registered by default')
+    await reporting.close()
+    ok(!registry.render().includes('test_stats_'), 'closed services leave the registry')
+    console.log('OK')
+}
+
+main().catch(e => {
+    console.error(e)
+    process.exitCode = 1
+})
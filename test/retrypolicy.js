@@ -0,0 +1,54 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const pancloud_nodejs_1 = require("pancloud-nodejs");
+const assert_1 = require("assert");
+let exp = Math.floor(Date.now() / 1000) + 3600;
+let accessToken = `e30.${Buffer.from(JSON.stringify({ exp: exp })).toString('base64')}.c2ln`;
+/**
+ * Mock Event Service: the first `failures` requests are answered with HTTP 503 and the provided `Retry-After` header
+ */
+function unavailable(failures, retryAfter) {
+    let transport = {
+        calls: 0,
+        fetch: async () => {
+            if (transport.calls++ < failures) {
+                return pancloud_nodejs_1.FetchResponse.response(false, 'unavailable', 503, { 'retry-after': retryAfter });
+            }
+            return pancloud_nodejs_1.FetchResponse.response(true, JSON.stringify({ filters: [] }), 200);
+        }
+    };
+    return transport;
+}
+/**
+ * The `Retry-After` delay is capped to `maxDelay` and no retry is attempted if it would start after the deadline
+ */
+async function main() {
+    let c = pancloud_nodejs_1.defaultCredentialsFactory('https://api.us.paloaltonetworks.com', accessToken);
+    let capped = unavailable(1, '3600');
+    let es = pancloud_nodejs_1.EventService.factory(c, { transport: capped, retryPolicy: { maxDelay: 50, jitter: false } });
+    let started = Date.now();
+    await es.getFilters();
+    let elapsed = Date.now() - started;
+    assert_1.ok(elapsed >= 45 && elapsed < 1000, `Retry-After is capped to maxDelay (waited ${elapsed} ms)`);
+    assert_1.equal(capped.calls, 2);
+    assert_1.equal(es.getEsStats().retryStats.retries, 1);
+    let late = unavailable(Infinity, '1');
+    es = pancloud_nodejs_1.EventService.factory(c, { transport: late, retryPolicy: { maxAttempts: 5, maxDelay: 5000 } });
+    started = Date.now();
+    try {
+        await es.getFilters({ deadline: Date.now() + 300 });
+        assert_1.ok(false, 'the operation must fail');
+    }
+    catch (e) {
+        assert_1.ok(e instanceof pancloud_nodejs_1.ServerError, `the last response is returned (${e.message})`);
+    }
+    elapsed = Date.now() - started;
+    assert_1.ok(elapsed < 300, `no attempt is scheduled past the deadline (waited ${elapsed} ms)`);
+    assert_1.equal(late.calls, 1);
+    assert_1.equal(es.getEsStats().retryStats.exhausted, 1);
+    console.log('OK');
+}
+main().catch(e => {
+    console.error(e);
+    process.exitCode = 1;
+});